@@ -10,6 +10,7 @@ import Register from '@/components/auth/Register';
 import AuthCallback from '@/components/auth/AuthCallback';
 import HomePage from './pages/HomePage';
 import TablePage from './pages/TablePage';
+import ReplayPage from './pages/ReplayPage';
 import { SocketProvider } from './context/SocketContext';
 
 // Placeholder components - these will be implemented later
@@ -74,6 +75,10 @@ const router = createBrowserRouter(
           path: "table/:gameId",
           element: <ProtectedRoute><TablePage /></ProtectedRoute>
         },
+        {
+          path: "replay/:gameId",
+          element: <ProtectedRoute><ReplayPage /></ProtectedRoute>
+        },
         {
           path: "*",
           element: <Navigate to="/" />
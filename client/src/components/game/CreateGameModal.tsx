@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import type { GameSettings, GameMode, BiddingOption } from '../../types/game';
+import type { GameSettings, GameMode, BiddingOption, TieBreak, TableVisibility } from '../../types/game';
 
 interface CreateGameModalProps {
   isOpen: boolean;
@@ -28,6 +28,12 @@ const CreateGameModal: React.FC<CreateGameModalProps> = ({ isOpen, onClose, onCr
   const [gimmickOption, setGimmickOption] = useState('');
   const [minPoints, setMinPoints] = useState(-100);
   const [maxPoints, setMaxPoints] = useState(500);
+  const [tieBreak, setTieBreak] = useState<TieBreak>('HIGHER_SCORE');
+  const [turnTimer, setTurnTimer] = useState(0);
+  const [maxSpectators, setMaxSpectators] = useState(10);
+  const [revealHandsToSpectators, setRevealHandsToSpectators] = useState(false);
+  const [visibility, setVisibility] = useState<TableVisibility>('PUBLIC');
+  const [password, setPassword] = useState('');
   const [buyIn, setBuyIn] = useState(100000);
   const [specialRule, setSpecialRule] = useState<'screamer' | 'assassin' | ''>('');
   const [allowNil, setAllowNil] = useState(true);
@@ -57,14 +63,26 @@ const CreateGameModal: React.FC<CreateGameModalProps> = ({ isOpen, onClose, onCr
     });
   };
 
+  // A GIMMICK table needs a gimmick, and Suicide only works with partners
+  const gimmickMissing = biddingOption === 'GIMMICK'
+    && (!gimmickOption || (mode !== 'PARTNERS' && gimmickOption === 'suicide'));
+  const passwordInvalid = visibility === 'PASSWORD' && (password.length < 4 || password.length > 32);
+
   const handleCreate = () => {
     // Pass all necessary settings to onCreateGame
     onCreateGame({
       gameMode: mode,
       biddingOption,
+      gimmickOption: biddingOption === 'GIMMICK' ? gimmickOption : undefined,
       gamePlayOption: 'REG',
       minPoints,
       maxPoints,
+      tieBreak,
+      turnTimer,
+      maxSpectators,
+      revealHandsToSpectators,
+      visibility,
+      password: visibility === 'PASSWORD' ? password : undefined,
       buyIn,
       specialRules: {
         screamer: specialRule === 'screamer',
@@ -160,6 +178,79 @@ const CreateGameModal: React.FC<CreateGameModalProps> = ({ isOpen, onClose, onCr
                 </div>
               </div>
             </div>
+            {/* Tie-break when both teams cross a limit on the same hand */}
+            <div className="flex items-center justify-center gap-2 mt-2">
+              <label className="text-slate-300 text-sm">If both teams finish:</label>
+              <select
+                value={tieBreak}
+                onChange={e => setTieBreak(e.target.value as TieBreak)}
+                className="bg-slate-600 text-slate-200 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="HIGHER_SCORE">Higher score wins</option>
+                <option value="PLAY_ANOTHER_HAND">Play another hand</option>
+              </select>
+            </div>
+            {/* Seconds per bid or card; running out plays the lowest legal move */}
+            <div className="flex items-center justify-center gap-2 mt-2">
+              <label className="text-slate-300 text-sm">Turn timer:</label>
+              <select
+                value={turnTimer}
+                onChange={e => setTurnTimer(Number(e.target.value))}
+                className="bg-slate-600 text-slate-200 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value={0}>Off</option>
+                <option value={15}>15 seconds</option>
+                <option value={30}>30 seconds</option>
+                <option value={60}>60 seconds</option>
+              </select>
+            </div>
+            {/* Unlisted tables are only reachable through the invite link or a friend invite */}
+            <div className="flex items-center justify-center gap-2 mt-2">
+              <label className="text-slate-300 text-sm">Table:</label>
+              <select
+                value={visibility}
+                onChange={e => setVisibility(e.target.value as TableVisibility)}
+                className="bg-slate-600 text-slate-200 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="PUBLIC">Public</option>
+                <option value="UNLISTED">Unlisted</option>
+                <option value="PASSWORD">Password</option>
+              </select>
+              {visibility === 'PASSWORD' && (
+                <input
+                  type="password"
+                  value={password}
+                  onChange={e => setPassword(e.target.value)}
+                  placeholder="4-32 characters"
+                  maxLength={32}
+                  className="bg-slate-600 text-slate-200 rounded-md px-2 py-1 text-sm w-32 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              )}
+            </div>
+            {/* Revealed hands reach spectators on a delay, so they can't be passed on to a player */}
+            <div className="flex items-center justify-center gap-2 mt-2">
+              <label className="text-slate-300 text-sm">Spectators:</label>
+              <select
+                value={maxSpectators}
+                onChange={e => setMaxSpectators(Number(e.target.value))}
+                className="bg-slate-600 text-slate-200 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value={0}>None</option>
+                <option value={5}>Up to 5</option>
+                <option value={10}>Up to 10</option>
+                <option value={20}>Up to 20</option>
+              </select>
+              <label className="flex items-center gap-1 cursor-pointer text-slate-300 text-sm">
+                <input
+                  type="checkbox"
+                  checked={revealHandsToSpectators}
+                  disabled={maxSpectators === 0}
+                  onChange={() => setRevealHandsToSpectators((v) => !v)}
+                  className="form-checkbox bg-slate-700 text-indigo-600 rounded"
+                />
+                Show hands (delayed)
+              </label>
+            </div>
           </div>
 
           {/* Bidding Options Radio Buttons - label removed */}
@@ -254,7 +345,8 @@ const CreateGameModal: React.FC<CreateGameModalProps> = ({ isOpen, onClose, onCr
           </button>
           <button
             onClick={handleCreate}
-            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md transition-colors"
+            disabled={gimmickMissing || passwordInvalid}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             Create Game
           </button>
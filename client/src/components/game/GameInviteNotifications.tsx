@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useSocket } from '../../context/SocketContext';
+
+// A friend's invitation to their table, as sent with game_invite
+interface GameInvite {
+  gameId: string;
+  inviteCode: string;
+  from: { id: string; username: string; avatar: string | null };
+}
+
+// Invitations from friends to their tables, each with a way in
+const GameInviteNotifications: React.FC = () => {
+  const { socket } = useSocket();
+  const navigate = useNavigate();
+  const [invites, setInvites] = useState<GameInvite[]>([]);
+
+  useEffect(() => {
+    if (!socket) return;
+    // One invite per table; a newer one replaces the older
+    const handleGameInvite = (invite: GameInvite) => {
+      setInvites(prev => [...prev.filter(i => i.gameId !== invite.gameId), invite]);
+    };
+    socket.on('game_invite', handleGameInvite);
+    return () => {
+      socket.off('game_invite', handleGameInvite);
+    };
+  }, [socket]);
+
+  const dismiss = (gameId: string) => {
+    setInvites(prev => prev.filter(i => i.gameId !== gameId));
+  };
+
+  // Sitting with the inviter puts you across from them, as their partner
+  const accept = (invite: GameInvite, withPartner = false) => {
+    dismiss(invite.gameId);
+    const partner = withPartner ? `&partner=${invite.from.id}` : '';
+    navigate(`/table/${invite.gameId}?invite=${invite.inviteCode}${partner}`);
+  };
+
+  if (invites.length === 0) return null;
+
+  return (
+    <div className="fixed top-20 right-4 z-40 flex flex-col gap-2">
+      {invites.map(invite => (
+        <div key={invite.gameId} className="flex items-center gap-3 bg-slate-800 border border-indigo-500 rounded-lg shadow-lg p-3">
+          <img src={invite.from.avatar || '/default-pfp.jpg'} alt="" className="w-8 h-8 rounded-full" />
+          <span className="text-sm text-slate-200">{invite.from.username} invited you to their table</span>
+          <button
+            className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 text-white text-xs rounded"
+            onClick={() => accept(invite)}
+          >
+            Join
+          </button>
+          <button
+            className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 text-white text-xs rounded"
+            onClick={() => accept(invite, true)}
+          >
+            Sit with {invite.from.username}
+          </button>
+          <button
+            className="px-3 py-1 bg-slate-600 hover:bg-slate-500 text-white text-xs rounded"
+            onClick={() => dismiss(invite.gameId)}
+          >
+            Dismiss
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default GameInviteNotifications;
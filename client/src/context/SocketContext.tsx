@@ -22,7 +22,7 @@ const SocketContext = createContext<SocketContextType>({
 export const useSocket = () => useContext(SocketContext);
 
 export const SocketProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { user } = useAuth();
+  const { user, setUser } = useAuth();
   const [socket, setSocket] = useState<Socket | null>(null);
   const [state, setState] = useState({
     isConnected: false,
@@ -31,8 +31,12 @@ export const SocketProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     error: null as string | null
   });
 
+  // Only a different login needs a new connection; a changed balance must not reconnect
+  const userId = user?.id;
+  const username = user?.username;
+
   useEffect(() => {
-    if (!user) {
+    if (!userId || !username) {
       setSocket(null);
       setState({
         isConnected: false,
@@ -49,12 +53,28 @@ export const SocketProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       setSocket(socketManager.getSocket());
     });
 
-    socketManager.initialize(user.id, user.username);
+    socketManager.initialize(userId, username);
 
     return () => {
       socketManager.disconnect();
     };
-  }, [user]);
+  }, [userId, username]);
+
+  // Buy-ins, payouts and refunds update the balance shown in the header
+  useEffect(() => {
+    if (!socket || !user) return;
+
+    const handleCoinsUpdated = (data: { userId: string; coins: number }) => {
+      if (data.userId !== user.id) return;
+      setUser({ ...user, coins: data.coins });
+    };
+
+    socket.on('coins_updated', handleCoinsUpdated);
+
+    return () => {
+      socket.off('coins_updated', handleCoinsUpdated);
+    };
+  }, [socket, user, setUser]);
 
   return (
     <SocketContext.Provider value={{
@@ -0,0 +1,5 @@
+// REST routes that act for a user take who they are from the session token, never the body
+export function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('sessionToken');
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
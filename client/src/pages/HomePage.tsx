@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/context/AuthContext';
 import CreateGameModal from '@/components/game/CreateGameModal';
+import GameInviteNotifications from '@/components/game/GameInviteNotifications';
 import NewUserWelcomeModal from '@/components/modals/NewUserWelcomeModal';
 import Header from '@/components/common/Header';
 import PlayerStatsModal from '@/components/modals/PlayerStatsModal';
@@ -9,6 +10,8 @@ import data from '@emoji-mart/data/sets/15/native.json';
 import type { GameState, Player, Bot } from '../types/game';
 import { useNavigate } from 'react-router-dom';
 import { useSocket } from '../context/SocketContext';
+import { getBiddingGameType } from '../table-ui/lib/gameRules';
+import { authHeaders } from '../lib/api';
 
 interface ChatMessage {
   id: string;
@@ -114,7 +117,7 @@ const HomePage: React.FC = () => {
     const handleFriendAdded = () => {
       console.log('Friend added, refreshing player list');
       fetch('/api/users', {
-        headers: { 'x-user-id': user.id }
+        headers: authHeaders()
       })
         .then(res => res.json())
         .then(setOnlinePlayers)
@@ -175,13 +178,8 @@ const HomePage: React.FC = () => {
     try {
       const res = await fetch('/api/games', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          ...settings,
-          creatorId: user.id,
-          creatorName: user.username,
-          creatorImage: user.avatar // or user.image if that's the field
-        }),
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify(settings),
       });
       if (!res.ok) throw new Error('Failed to create game');
       const game: GameState = await res.json();
@@ -197,20 +195,25 @@ const HomePage: React.FC = () => {
     return true;
   });
 
+  // The waiting table this user sits at, which friends can be invited to
+  const myOpenTable = games.find(game => game.status === 'WAITING' && game.players.some(p => p?.id === user.id));
+
+  // Password tables ask for it before the first join or watch; the server remembers who got in
+  const askForPassword = (game: GameState): string | undefined | null => {
+    if (game.visibility !== 'PASSWORD' || game.players.some(p => p?.id === user.id)) return undefined;
+    return window.prompt('This table is password protected. Enter the password:');
+  };
+
   // Handler to join a game as a player, with seat index
   const handleJoinGame = async (gameId: string, seatIndex: number) => {
     if (!user) return;
-    // Ensure user is not null before accessing properties
-    const { id, username, avatar } = user;
+    const game = games.find(g => g.id === gameId);
+    const password = game ? askForPassword(game) : undefined;
+    if (password === null) return;
     const res = await fetch(`/api/games/${gameId}/join`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        id,
-        username,
-        avatar,
-        seat: seatIndex,
-      }),
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify({ seat: seatIndex, password }),
     });
     if (!res.ok) {
       const error = await res.json();
@@ -221,12 +224,27 @@ const HomePage: React.FC = () => {
   };
 
   // Handler to watch a game as an observer
-  const handleWatchGame = (gameId: string) => {
+  const handleWatchGame = async (gameId: string) => {
+    const game = games.find(g => g.id === gameId);
+    const password = game ? askForPassword(game) : undefined;
+    if (password === null) return;
+    if (password !== undefined) {
+      const res = await fetch(`/api/games/${gameId}/spectate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({ password }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        alert('Failed to watch game: ' + (error.error || 'Unknown error'));
+        return;
+      }
+    }
     navigate(`/table/${gameId}?spectate=1`);
   };
 
   const getGameTypeBrick = (game: GameState) => {
-    const type = game.rules?.gameType || 'REGULAR';
+    const type = getBiddingGameType(game);
     let color = 'bg-green-600';
     let label = 'REGULAR';
     if (type === 'WHIZ') {
@@ -235,7 +253,7 @@ const HomePage: React.FC = () => {
     } else if (type === 'MIRROR') {
       color = 'bg-red-600';
       label = 'MIRRORS';
-    } else if (game.forcedBid && type === 'REGULAR') {
+    } else if (game.forcedBid && game.forcedBid !== 'NONE' && type === 'REGULAR') {
       color = 'bg-orange-500';
       if (game.forcedBid === 'BID4NIL') label = 'BID 4 OR NIL';
       else if (game.forcedBid === 'BID3') label = 'BID 3';
@@ -273,6 +291,8 @@ const HomePage: React.FC = () => {
           {game.rules?.allowNil && <span className="text-slate-300 ml-2">nil <span className="align-middle">☑️</span></span>}
           {!game.rules?.allowNil && <span className="text-slate-300 ml-2">nil <span className="align-middle">❌</span></span>}
           <span className="text-slate-300 ml-2">bn <span className="align-middle">{game.rules?.allowBlindNil ? '☑️' : '❌'}</span></span>
+          {game.visibility === 'PASSWORD' && <span className="ml-auto" title="Password protected">🔒</span>}
+          {game.visibility === 'UNLISTED' && <span className="ml-auto text-xs text-slate-400" title="Only people with the invite link see this table">Unlisted</span>}
         </div>
         {/* Line 2: Buy-in, game mode, and special bricks */}
         <div className="flex items-center gap-2 mb-4">
@@ -323,9 +343,18 @@ const HomePage: React.FC = () => {
           <span className="text-xs text-slate-400">
             {game.status === 'WAITING' ? 'WAITING' : 'IN PROGRESS'}
           </span>
-          <button className="px-3 py-1 bg-slate-700 text-slate-300 text-xs rounded-full hover:bg-slate-600 transition" onClick={() => handleWatchGame(game.id)}>
-            Watch
-          </button>
+          {/* Tables without a limit predate it and take the server default */}
+          {game.rules?.maxSpectators === 0 ? (
+            <span className="text-xs text-slate-500">No spectators</span>
+          ) : (
+            <button
+              className="px-3 py-1 bg-slate-700 text-slate-300 text-xs rounded-full hover:bg-slate-600 transition disabled:opacity-50"
+              disabled={game.rules?.maxSpectators !== undefined && (game.spectators?.length ?? 0) >= game.rules.maxSpectators}
+              onClick={() => handleWatchGame(game.id)}
+            >
+              Watch{game.spectators?.length ? ` (${game.spectators.length})` : ''}
+            </button>
+          )}
         </div>
       </div>
     );
@@ -383,7 +412,7 @@ const HomePage: React.FC = () => {
   // Fetch real users for the lobby
   useEffect(() => {
     fetch('/api/users', {
-      headers: { 'x-user-id': user.id }
+      headers: authHeaders()
     })
       .then(res => res.json())
       .then(setOnlinePlayers)
@@ -392,7 +421,9 @@ const HomePage: React.FC = () => {
 
   // Fetch games as a fallback for loading spinner
   useEffect(() => {
-    fetch('/api/games')
+    fetch('/api/games', {
+      headers: authHeaders()
+    })
       .then(res => res.json())
       .then((games) => {
         setGames(games);
@@ -411,7 +442,7 @@ const HomePage: React.FC = () => {
     if (!confirmModal.player) return;
     const player = confirmModal.player;
     let url = '';
-    let body: any = { userId: user.id };
+    const body: Record<string, string> = {};
 
     if (confirmModal.action === 'add-friend') {
       url = '/api/social/friends/add';
@@ -430,12 +461,12 @@ const HomePage: React.FC = () => {
     if (url) {
       await fetch(url, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
         body: JSON.stringify(body)
       });
       // Refresh player list
       fetch('/api/users', {
-        headers: { 'x-user-id': user.id }
+        headers: authHeaders()
       })
         .then(res => res.json())
         .then(setOnlinePlayers);
@@ -443,6 +474,19 @@ const HomePage: React.FC = () => {
     setConfirmModal({ open: false, player: null, action: '' });
   };
 
+  const handleInviteFriend = async (friendId: string) => {
+    if (!myOpenTable) return;
+    const res = await fetch(`/api/games/${myOpenTable.id}/invite`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify({ friendId }),
+    });
+    if (!res.ok) {
+      const error = await res.json();
+      alert('Failed to send invite: ' + (error.error || 'Unknown error'));
+    }
+  };
+
   // Handler to dismiss welcome modal and persist in localStorage
   const handleDismissWelcomeModal = () => {
     setShowWelcomeModal(false);
@@ -468,6 +512,8 @@ const HomePage: React.FC = () => {
         <span className={`text-base font-bold ml-2 ${mobileTab === 'chat' ? 'text-indigo-600' : 'text-slate-400'}`}>Chat</span>
       </div>
 
+      <GameInviteNotifications />
+
       <main className="container mx-auto px-4 py-4 h-[calc(100vh-64px-32px)]">
         <div
           className={
@@ -737,6 +783,12 @@ const HomePage: React.FC = () => {
                             ) : (
                               player.status === 'friend' ? (
                                 <>
+                                  {myOpenTable && player.online && !myOpenTable.players.some(p => p?.id === player.id) && (
+                                    <button className="px-2 h-8 flex items-center justify-center rounded-full bg-indigo-600 border border-slate-300 hover:bg-indigo-700 text-white text-xs font-semibold" title="Invite to your table"
+                                      onClick={() => handleInviteFriend(player.id)}>
+                                      Invite
+                                    </button>
+                                  )}
                                   <button className="w-8 h-8 flex items-center justify-center rounded-full bg-red-600 border border-slate-300 hover:bg-red-700" title="Remove Friend"
                                     onClick={() => setConfirmModal({ open: true, player, action: 'remove-friend' })}>
                                     <img src="/remove-friend.svg" alt="Remove Friend" className="w-5 h-5" style={{ filter: 'invert(1) brightness(2)' }} />
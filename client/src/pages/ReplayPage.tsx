@@ -0,0 +1,254 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { authHeaders } from '../lib/api';
+import GameTable from '../table-ui/game/GameTable';
+import HandSummaryModal from '../table-ui/game/HandSummaryModal';
+import type { Card, CompletedTrick, GameReplay, GameState, HandReplay, Player } from '../types/game';
+
+// A point on the timeline: a hand, how many of its tricks are played, and whether its summary is up
+interface ReplayStep {
+  hand: number;
+  tricks: number;
+  summary: boolean;
+}
+
+const AUTOPLAY_DELAY_MS = 1500;
+
+function buildSteps(hands: HandReplay[]): ReplayStep[] {
+  return hands.flatMap((hand, index) => [
+    ...Array.from({ length: hand.tricks.length + 1 }, (_, tricks) => ({ hand: index, tricks, summary: false })),
+    { hand: index, tricks: hand.tricks.length, summary: true },
+  ]);
+}
+
+// Running totals once the first handsDone hands are scored
+function getTotals(replay: GameReplay, handsDone: number) {
+  const score = replay.hands[handsDone - 1]?.score;
+  return {
+    scores: { team1: score?.team1TotalScore ?? 0, team2: score?.team2TotalScore ?? 0 },
+    team1Bags: score?.team1Bags ?? 0,
+    team2Bags: score?.team2Bags ?? 0,
+    playerScores: score?.playerTotalScores ?? [0, 0, 0, 0],
+    playerBags: score?.playerTotalBags ?? [0, 0, 0, 0],
+  };
+}
+
+function isSameCard(a: Card, b: Card) {
+  return a.suit === b.suit && a.rank === b.rank;
+}
+
+// The table as it stood at a step, plus the trick just finished so its winner can be highlighted
+function buildReplayState(replay: GameReplay, step: ReplayStep): { state: GameState; trick: CompletedTrick | null } {
+  const hand = replay.hands[step.hand];
+  const played = hand.tricks.slice(0, step.tricks);
+  const playedCards = played.flatMap(trick => trick.cards);
+  const tricksWon = [0, 0, 0, 0];
+  played.forEach(trick => { tricksWon[trick.winnerIndex]++; });
+
+  const players = replay.game.players.map((player, seat) => player && {
+    ...player,
+    position: seat,
+    hand: (hand.hands[seat] || []).filter(card => !playedCards.some(c => isSameCard(c, card))),
+    bid: hand.bids[seat],
+    tricks: tricksWon[seat],
+    isDealer: seat === hand.dealerIndex,
+  });
+
+  const lastTrick = played[played.length - 1];
+  const trickCards = (lastTrick?.cards || []).map(card => ({ ...card, playedBy: players[card.playerIndex] as Player }));
+  const handOver = step.tricks === hand.tricks.length;
+  const nextSeat = handOver ? -1 : lastTrick ? lastTrick.winnerIndex : (hand.dealerIndex + 1) % 4;
+
+  const state: GameState = {
+    ...replay.game,
+    ...getTotals(replay, step.summary ? step.hand + 1 : step.hand),
+    status: 'PLAYING',
+    players,
+    currentPlayer: players[nextSeat]?.id ?? '',
+    currentTrick: trickCards,
+    completedTricks: played.map(trick => trick.cards),
+    bidding: undefined,
+  };
+  const trick = lastTrick ? {
+    cards: trickCards,
+    winnerIndex: lastTrick.winnerIndex,
+    winningCard: trickCards.find(card => card.playerIndex === lastTrick.winnerIndex) as Card,
+  } : null;
+  return { state, trick };
+}
+
+function getStepLabel(replay: GameReplay, step: ReplayStep): string {
+  const hand = replay.hands[step.hand];
+  if (step.summary) return `Hand ${hand.roundNumber} · Summary`;
+  if (step.tricks === 0) return `Hand ${hand.roundNumber} · Bids`;
+  return `Hand ${hand.roundNumber} · Trick ${step.tricks} of ${hand.tricks.length}`;
+}
+
+function formatPoints(points: number): string {
+  return points >= 0 ? `+${points}` : `${points}`;
+}
+
+export default function ReplayPage() {
+  const { gameId } = useParams<{ gameId: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [replay, setReplay] = useState<GameReplay | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [summaryClosed, setSummaryClosed] = useState(false);
+
+  useEffect(() => {
+    const fetchReplay = async () => {
+      try {
+        const response = await fetch(`/api/games/${gameId}/replay`, { headers: authHeaders() });
+        if (response.status === 404) {
+          setError('This game has no replay');
+          return;
+        }
+        if (!response.ok) {
+          throw new Error('Failed to fetch replay');
+        }
+        const data: GameReplay = await response.json();
+        if (!data.hands.length) {
+          setError('This game has no recorded hands');
+          return;
+        }
+        setReplay(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load replay');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchReplay();
+  }, [gameId]);
+
+  const steps = useMemo(() => (replay ? buildSteps(replay.hands) : []), [replay]);
+  const step = steps[stepIndex];
+  const view = useMemo(() => (replay && step ? buildReplayState(replay, step) : null), [replay, step]);
+
+  // Each step brings up its own summary, even if an earlier one was dismissed
+  useEffect(() => {
+    setSummaryClosed(false);
+  }, [stepIndex]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (stepIndex >= steps.length - 1) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStepIndex(index => index + 1), AUTOPLAY_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, stepIndex, steps.length]);
+
+  const goToStep = (index: number) => {
+    setIsPlaying(false);
+    setStepIndex(Math.max(0, Math.min(steps.length - 1, index)));
+  };
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  if (error || !replay || !view || !step) {
+    return (
+      <div className="flex flex-col items-center justify-center h-screen gap-4 bg-gray-900 text-white">
+        <div>{error || 'Replay not found'}</div>
+        <button
+          onClick={() => navigate('/')}
+          className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-sm font-semibold"
+        >
+          Back to Lobby
+        </button>
+      </div>
+    );
+  }
+
+  const currentHand = replay.hands[step.hand];
+  const isPartners = currentHand.score.team1Score !== undefined;
+
+  const sidePanel = (
+    <div className="flex flex-col h-full bg-gray-800 text-white p-4 gap-4">
+      <div>
+        <h2 className="text-lg font-bold">Replay</h2>
+        <p className="text-sm text-gray-300">{getStepLabel(replay, step)}</p>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={steps.length - 1}
+        value={stepIndex}
+        onChange={(e) => goToStep(Number(e.target.value))}
+        className="w-full accent-yellow-500"
+      />
+      <div className="flex gap-2">
+        <button
+          onClick={() => goToStep(stepIndex - 1)}
+          disabled={stepIndex === 0}
+          className="flex-1 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-sm font-semibold disabled:opacity-50"
+        >
+          Prev
+        </button>
+        <button
+          onClick={() => setIsPlaying(playing => !playing)}
+          disabled={stepIndex === steps.length - 1}
+          className="flex-1 px-3 py-1 bg-yellow-500 hover:bg-yellow-600 text-black rounded-md text-sm font-semibold disabled:opacity-50"
+        >
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <button
+          onClick={() => goToStep(stepIndex + 1)}
+          disabled={stepIndex === steps.length - 1}
+          className="flex-1 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-sm font-semibold disabled:opacity-50"
+        >
+          Next
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto space-y-1">
+        {replay.hands.map((hand, index) => (
+          <button
+            key={hand.roundNumber}
+            onClick={() => goToStep(steps.findIndex(s => s.hand === index))}
+            className={`w-full flex justify-between px-3 py-1 rounded-md text-sm ${index === step.hand ? 'bg-indigo-700/60' : 'bg-gray-700/50 hover:bg-gray-700'}`}
+          >
+            <span>Hand {hand.roundNumber}</span>
+            {hand.score.team1Score !== undefined && hand.score.team2Score !== undefined && (
+              <span className="text-gray-300">
+                {formatPoints(hand.score.team1Score)} / {formatPoints(hand.score.team2Score)}
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="table-page">
+      <GameTable
+        game={view.state}
+        joinGame={() => {}}
+        onLeaveTable={() => navigate('/')}
+        startGame={async () => {}}
+        user={user}
+        readOnly
+        replayTrick={view.trick}
+        sidePanel={sidePanel}
+      />
+      {step.summary && (
+        <HandSummaryModal
+          isOpen={!summaryClosed}
+          onClose={() => setSummaryClosed(true)}
+          gameState={view.state}
+          readOnly
+          handScore={isPartners ? { team1: currentHand.score.team1Score ?? 0, team2: currentHand.score.team2Score ?? 0 } : undefined}
+        />
+      )}
+    </div>
+  );
+}
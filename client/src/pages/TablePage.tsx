@@ -6,6 +6,7 @@ import GameTable from '../table-ui/game/GameTable';
 import type { GameState } from '../types/game';
 import type { Socket } from 'socket.io-client';
 import { socketApi } from '../table-ui/lib/socketApi';
+import { authHeaders } from '../lib/api';
 
 export default function TablePage() {
   const { gameId } = useParams<{ gameId: string }>();
@@ -17,17 +18,24 @@ export default function TablePage() {
   const [isLoading, setIsLoading] = useState(true);
   const [socket, setSocket] = useState<Socket | null>(null);
   const socketManager = getSocketManager();
+  // Coin updates replace the user object; only a different login may reconnect the table
+  const userId = user?.id;
+  const username = user?.username;
 
   // Detect spectate intent
   const isSpectator = new URLSearchParams(location.search).get('spectate') === '1';
+  // Invite links seat whoever opens them, private table or not
+  const inviteCode = new URLSearchParams(location.search).get('invite') ?? undefined;
+  // Accepting an invite can seat the invitee across from whoever sent it
+  const partnerId = new URLSearchParams(location.search).get('partner') ?? undefined;
 
   useEffect(() => {
-    if (!user) {
+    if (!userId || !username) {
       navigate('/login');
       return;
     }
 
-    socketManager.initialize(user.id, user.username);
+    socketManager.initialize(userId, username);
     const newSocket = socketManager.getSocket();
     if (newSocket) {
       setSocket(newSocket);
@@ -37,15 +45,16 @@ export default function TablePage() {
       try {
         // If spectating, call spectate endpoint
         if (isSpectator) {
-          await fetch(`/api/games/${gameId}/spectate`, {
+          const spectateResponse = await fetch(`/api/games/${gameId}/spectate`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              id: user.id,
-              username: user.username,
-              avatar: user.avatar
-            })
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ inviteCode })
           });
+          // A 400 just means this user is already watching, e.g. after a refresh
+          if (spectateResponse.status === 403) {
+            const { error } = await spectateResponse.json();
+            throw new Error(error || 'This table is not taking spectators');
+          }
         }
         const response = await fetch(`/api/games/${gameId}`);
         if (response.status === 404) {
@@ -55,8 +64,23 @@ export default function TablePage() {
         if (!response.ok) {
           throw new Error('Failed to fetch game');
         }
-        const data = await response.json();
+        const data: GameState = await response.json();
         setGame(data);
+        // Take the first free seat (or the one across from a partner) for an invitee who isn't at the table yet
+        const freeSeat = data.players.findIndex(p => p === null);
+        if (inviteCode && !isSpectator && freeSeat !== -1 && !data.players.some(p => p?.id === userId)) {
+          const joinResponse = await fetch(`/api/games/${gameId}/join`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ seat: freeSeat, inviteCode, partnerId })
+          });
+          if (!joinResponse.ok) {
+            const { error } = await joinResponse.json();
+            throw new Error(error || 'Failed to join game');
+          }
+          setGame(await joinResponse.json());
+          newSocket?.emit('join_game', { gameId, inviteCode });
+        }
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load game');
       } finally {
@@ -70,7 +94,7 @@ export default function TablePage() {
       socketManager.disconnect();
       setSocket(null);
     };
-  }, [gameId, user, navigate, isSpectator]);
+  }, [gameId, userId, username, navigate, isSpectator, inviteCode, partnerId]);
 
   // Listen for game_update events and update local game state
   useEffect(() => {
@@ -86,29 +110,57 @@ export default function TablePage() {
 
   // Ensure player always (re)joins the game room on socket connect or refresh
   useEffect(() => {
-    if (socket && socket.connected && user && gameId) {
-      socket.emit('join_game', { gameId, userId: user.id });
+    if (socket && socket.connected && userId && gameId) {
+      socket.emit('join_game', { gameId, spectate: isSpectator, inviteCode });
     }
-  }, [socket, user, gameId]);
+  }, [socket, userId, gameId, isSpectator, inviteCode]);
+
+  // After a dropped connection, pick the held seat back up with a fresh snapshot
+  useEffect(() => {
+    if (!socket || !gameId || isSpectator) return;
+    let wasDisconnected = false;
+    const handleDisconnect = () => {
+      wasDisconnected = true;
+    };
+    const handleConnect = () => {
+      if (!wasDisconnected) return;
+      wasDisconnected = false;
+      socket.emit('resume_game', { gameId });
+    };
+    const handleResumed = (snapshot: GameState) => {
+      if (snapshot.id === gameId) setGame(snapshot);
+    };
+    const handleResumeFailed = (data: { gameId: string; message: string }) => {
+      if (data.gameId !== gameId) return;
+      console.warn('Could not resume game:', data.message);
+      navigate('/');
+    };
+    socket.on('disconnect', handleDisconnect);
+    socket.on('connect', handleConnect);
+    socket.on('game_resumed', handleResumed);
+    socket.on('resume_failed', handleResumeFailed);
+    return () => {
+      socket.off('disconnect', handleDisconnect);
+      socket.off('connect', handleConnect);
+      socket.off('game_resumed', handleResumed);
+      socket.off('resume_failed', handleResumeFailed);
+    };
+  }, [socket, gameId, navigate, isSpectator]);
 
   // Only join as a player if not spectating
-  const handleJoinGame = async () => {
+  const handleJoinGame = async (_gameId: string, _userId: string, options?: { seat?: number }) => {
     if (!user || !gameId || isSpectator) return;
     try {
       const response = await fetch(`/api/games/${gameId}/join`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          id: user.id,
-          username: user.username,
-          avatar: user.avatar
-        }),
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({ seat: options?.seat, inviteCode }),
       });
       if (!response.ok) throw new Error('Failed to join game');
       const updatedGame = await response.json();
       setGame(updatedGame);
+      // Seated over REST; the socket still has to be in the table's room
+      socket?.emit('join_game', { gameId, inviteCode });
     } catch (error) {
       console.error('Error joining game:', error);
     }
@@ -119,8 +171,7 @@ export default function TablePage() {
     try {
       await fetch(`/api/games/${gameId}/leave`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ id: user.id })
+        headers: authHeaders()
       });
       window.location.href = '/';
     } catch (error) {
@@ -158,6 +209,7 @@ export default function TablePage() {
         onLeaveTable={handleLeaveTable}
         startGame={handleStartGame}
         user={user}
+        spectating={isSpectator}
       />
     </div>
   );
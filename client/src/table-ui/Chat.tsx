@@ -12,6 +12,8 @@ interface ChatProps {
   userName: string;
   players: Player[];
   spectators?: Player[];
+  // Spectators talk on their own channel, which the players never see
+  isSpectator?: boolean;
   userAvatar?: string;
   showPlayerListTab?: boolean;
   chatType?: 'game' | 'lobby';
@@ -29,6 +31,7 @@ export interface ChatMessage {
   user?: string; // For compatibility with existing code
   timestamp: number;
   isGameMessage?: boolean;
+  isSpectatorMessage?: boolean;
 }
 
 // Fallback avatars 
@@ -45,7 +48,7 @@ const EyeIcon = () => (
   <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" className="inline-block w-5 h-5 ml-1 align-middle"><path d="M12 5C5.63636 5 2 12 2 12C2 12 5.63636 19 12 19C18.3636 19 22 12 22 12C22 12 18.3636 5 12 5Z" stroke="#888" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"></path><path d="M12 15C13.6569 15 15 13.6569 15 12C15 10.3431 13.6569 9 12 9C10.3431 9 9 10.3431 9 12C9 13.6569 10.3431 15 12 15Z" stroke="#888" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"></path></svg>
 );
 
-export default function Chat({ gameId, userId, userName, players, spectators, userAvatar, showPlayerListTab = true, chatType = 'game', onToggleChatType, lobbyMessages }: ChatProps) {
+export default function Chat({ gameId, userId, userName, players, spectators, isSpectator = false, userAvatar, showPlayerListTab = true, chatType = 'game', onToggleChatType, lobbyMessages }: ChatProps) {
   const { socket, isAuthenticated, isConnected, isReady } = useSocket();
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [newMessage, setNewMessage] = useState('');
@@ -154,12 +157,18 @@ export default function Chat({ gameId, userId, userName, players, spectators, us
       }
     };
 
+    // Spectator chat only ever reaches spectators
+    const handleSpectatorMessage = (data: { gameId: string; message: ChatMessage }) => {
+      if (data.gameId !== gameId) return;
+      setMessages(prev => [...prev, { ...data.message, isSpectatorMessage: true }]);
+    };
+
     // Set up reconnection handler
     const handleReconnect = () => {
       console.log('Chat: Socket reconnected');
       if (socket && isAuthenticated) {
         if (chatType === 'game') {
-          socket.emit('join_game', { gameId });
+          socket.emit('join_game', { gameId, spectate: isSpectator });
         }
       }
     };
@@ -169,7 +178,7 @@ export default function Chat({ gameId, userId, userName, players, spectators, us
       console.log('Chat: Socket connected');
       if (socket && isAuthenticated) {
         if (chatType === 'game') {
-          socket.emit('join_game', { gameId });
+          socket.emit('join_game', { gameId, spectate: isSpectator });
         }
       }
     };
@@ -186,6 +195,7 @@ export default function Chat({ gameId, userId, userName, players, spectators, us
     if (socket) {
       if (chatType === 'game') {
         socket.on('chat_message', handleMessage);
+        socket.on('spectator_chat_message', handleSpectatorMessage);
       } else {
         socket.on('lobby_chat_message', handleMessage);
       }
@@ -198,7 +208,7 @@ export default function Chat({ gameId, userId, userName, players, spectators, us
       // Join the game room if needed
       if (isAuthenticated && chatType === 'game') {
         console.log('Chat: Joining game:', gameId);
-        socket.emit('join_game', { gameId });
+        socket.emit('join_game', { gameId, spectate: isSpectator });
       }
     }
 
@@ -206,6 +216,7 @@ export default function Chat({ gameId, userId, userName, players, spectators, us
       if (socket) {
         if (chatType === 'game') {
           socket.off('chat_message', handleMessage);
+          socket.off('spectator_chat_message', handleSpectatorMessage);
         } else {
           socket.off('lobby_chat_message', handleMessage);
         }
@@ -215,7 +226,7 @@ export default function Chat({ gameId, userId, userName, players, spectators, us
         socket.off('error', onError);
       }
     };
-  }, [socket, isAuthenticated, isConnected, isReady, gameId, chatType]);
+  }, [socket, isAuthenticated, isConnected, isReady, gameId, chatType, isSpectator]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -235,7 +246,7 @@ export default function Chat({ gameId, userId, userName, players, spectators, us
 
     try {
       if (chatType === 'game') {
-        socket.emit('chat_message', { gameId, message });
+        socket.emit(isSpectator ? 'spectator_chat_message' : 'chat_message', { gameId, message });
       } else {
         socket.emit('lobby_chat_message', message);
       }
@@ -402,7 +413,10 @@ export default function Chat({ gameId, userId, userName, players, spectators, us
                     <div className={`max-w-[80%] ${msg.userId === userId ? 'bg-blue-600 text-white' : 'bg-gray-700 text-white'} rounded-lg px-${isMobile ? '2' : '3'} py-${isMobile ? '1' : '2'}`}> 
                       <div className="flex justify-between items-center mb-1">
                         {msg.userId !== userId && (
-                          <span className="font-medium text-xs opacity-80" style={{ fontSize: isMobile ? '9px' : '' }}>{msg.userName || msg.user}</span>
+                          <span className="font-medium text-xs opacity-80" style={{ fontSize: isMobile ? '9px' : '' }}>
+                            {msg.userName || msg.user}
+                            {msg.isSpectatorMessage && <span title="Spectator"><EyeIcon /></span>}
+                          </span>
                         )}
                         <span className="text-xs opacity-75 ml-auto" style={{ fontSize: isMobile ? '9px' : '' }}>{formatTime(msg.timestamp)}</span>
                       </div>
@@ -475,7 +489,7 @@ export default function Chat({ gameId, userId, userName, players, spectators, us
                   type="text"
                   value={newMessage}
                   onChange={(e) => setNewMessage(e.target.value)}
-                  placeholder={screenSize.width < 640 ? "Type..." : "Type a message..."}
+                  placeholder={screenSize.width < 640 ? "Type..." : isSpectator ? "Message other spectators..." : "Type a message..."}
                   className="bg-gray-700 text-white rounded-l w-full px-3 py-2 outline-none border-0"
                   style={{ fontSize: `${fontSize}px` }}
                 />
@@ -1,5 +1,6 @@
-import { useState, useEffect } from "react";
-import { GameType } from "@/types/game";
+import { useState } from "react";
+import { GameType, GimmickType } from "@/types/game";
+import { BLIND_NIL } from "../lib/gameRules";
 
 interface BiddingProps {
   onBid: (bid: number) => void;
@@ -9,6 +10,19 @@ interface BiddingProps {
   gameType: GameType;
   numSpades: number; // Number of spades in player's hand
   allowNil?: boolean; // Add allowNil prop
+  blindNilOffered?: boolean; // Cards are still hidden while the player decides on blind nil
+  onRevealHand?: () => void;
+  gimmickType?: GimmickType | null;
+  forcedBid?: number | null; // The only bid the rules leave this hand, if any
+}
+
+// Why the player has no choice, for the forced-bid confirmation
+function getForcedBidReason(gameType: GameType, gimmickType: GimmickType | null | undefined, bid: number): string {
+  if (gimmickType === "SUICIDE") return "Your partner did not bid nil, so you must";
+  if (gimmickType === "BID3") return "Everyone bids 3 this game";
+  if (gimmickType === "BIDHEARTS") return `You have ${bid} hearts, so you must bid ${bid}`;
+  if (gameType === "MIRROR") return `You have ${bid} spades, so you must bid ${bid}`;
+  return `You must bid ${bid}`;
 }
 
 // Assign a unique class name for direct targeting
@@ -24,53 +38,104 @@ export default function BiddingInterface({
   currentPlayerTurn,
   gameType,
   numSpades,
-  allowNil = true // Default to true for backward compatibility
+  allowNil = true, // Default to true for backward compatibility
+  blindNilOffered = false,
+  onRevealHand,
+  gimmickType,
+  forcedBid
 }: BiddingProps) {
   const [selectedBid, setSelectedBid] = useState<number | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const isMyTurn = playerId === currentPlayerTurn;
 
-  // For MIRROR games, automatically bid the number of spades
-  useEffect(() => {
-    if (gameType === "MIRROR" && isMyTurn) {
-      console.log('Auto-bidding in MIRROR game:', numSpades);
-      setIsSubmitting(true);
-      onBid(numSpades);
-    }
-  }, [gameType, isMyTurn, numSpades, onBid]);
-
   const handleSubmit = (bid: number) => {
     setIsSubmitting(true);
     onBid(bid);
   };
 
-  // Extra safeguard - hide if not my turn, if we're submitting, or if it's a MIRROR game
-  if (!isMyTurn || isSubmitting || gameType === "MIRROR") {
+  // Extra safeguard - hide if not my turn or if we're submitting
+  if (!isMyTurn || isSubmitting) {
     return null;
   }
 
-  // For WHIZ games, show spades count and nil options
-  if (gameType === "WHIZ") {
+  // Blind nil is decided before the cards are seen
+  if (blindNilOffered) {
     return (
       <div className={`${modalContainerClass} absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-50`}>
         <div className={`${modalContentClass} w-[380px] md:w-[360px] sm:w-[320px] max-sm:w-[280px] backdrop-blur-md bg-gray-900/75 border border-white/10 rounded-2xl p-4 max-sm:p-3 shadow-xl`}>
           <div className="text-center mb-3 max-sm:mb-2">
-            <h2 className="text-lg max-sm:text-base font-bold text-white">Make Your Bid</h2>
-            <p className="text-sm max-sm:text-xs text-gray-300">You have {numSpades} spades</p>
+            <h2 className="text-lg max-sm:text-base font-bold text-white">Blind Nil?</h2>
+            <p className="text-sm max-sm:text-xs text-gray-300">Bid blind nil for double points, or look at your cards to bid normally</p>
           </div>
           <div className="flex flex-col gap-3">
             <button
-              onClick={() => setSelectedBid(numSpades)}
-              className={`${numberButtonClass} px-6 h-12 md:h-10 sm:h-9 max-sm:h-8 rounded-md text-xl md:text-lg sm:text-base max-sm:text-sm font-bold transition-all flex items-center justify-center ${selectedBid === numSpades ? 'bg-gradient-to-br from-yellow-400 to-yellow-600 text-black ring-2 ring-yellow-200 shadow-lg' : 'bg-gray-700/80 hover:bg-gray-600/90 text-white'}`}
+              onClick={() => handleSubmit(BLIND_NIL)}
+              className={`${numberButtonClass} px-6 h-12 md:h-10 sm:h-9 max-sm:h-8 rounded-md text-xl md:text-lg sm:text-base max-sm:text-sm font-bold transition-all flex items-center justify-center bg-gradient-to-br from-purple-500 to-purple-700 hover:from-purple-600 hover:to-purple-800 text-white`}
             >
-              Bid {numSpades}
+              Blind Nil
             </button>
             <button
-              onClick={() => setSelectedBid(0)}
-              className={`${numberButtonClass} px-6 h-12 md:h-10 sm:h-9 max-sm:h-8 rounded-md text-xl md:text-lg sm:text-base max-sm:text-sm font-bold transition-all flex items-center justify-center ${selectedBid === 0 ? 'bg-gradient-to-br from-blue-500 to-blue-700 text-white ring-2 ring-blue-300 shadow-lg' : 'bg-gray-700/80 hover:bg-gray-600/90 text-white'}`}
+              onClick={() => onRevealHand?.()}
+              className={`${bottomButtonClass} px-6 h-12 md:h-10 sm:h-9 max-sm:h-8 rounded-md text-xl md:text-lg sm:text-base max-sm:text-sm font-bold transition-all flex items-center justify-center bg-gray-700/80 hover:bg-gray-600/90 text-white`}
+            >
+              Look at Cards
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Mirror, Bid 3, Bid Hearts and the second Suicide partner have only one bid to confirm
+  if (forcedBid !== null && forcedBid !== undefined) {
+    const title = gameType === "MIRROR" ? "Mirror Bid" : "Forced Bid";
+    return (
+      <div className={`${modalContainerClass} absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-50`}>
+        <div className={`${modalContentClass} w-[380px] md:w-[360px] sm:w-[320px] max-sm:w-[280px] backdrop-blur-md bg-gray-900/75 border border-white/10 rounded-2xl p-4 max-sm:p-3 shadow-xl`}>
+          <div className="text-center mb-3 max-sm:mb-2">
+            <h2 className="text-lg max-sm:text-base font-bold text-white">{title}</h2>
+            <p className="text-sm max-sm:text-xs text-gray-300">
+              {getForcedBidReason(gameType, gimmickType, forcedBid)}
+            </p>
+          </div>
+          <button
+            onClick={() => handleSubmit(forcedBid)}
+            className={`${bottomButtonClass} w-full px-6 h-12 md:h-10 sm:h-9 max-sm:h-8 rounded-md text-xl md:text-lg sm:text-base max-sm:text-sm font-bold transition-all flex items-center justify-center bg-gradient-to-br from-green-500 to-green-700 hover:from-green-600 hover:to-green-800 text-white`}
+          >
+            {gimmickType === "SUICIDE" ? "Bid Nil" : `Bid ${forcedBid}`}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // WHIZ and Bid 4 or Nil offer one number or nil
+  const fixedBid = gameType === "WHIZ" ? numSpades : gimmickType === "BID4NIL" ? 4 : null;
+  if (fixedBid !== null) {
+    return (
+      <div className={`${modalContainerClass} absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-50`}>
+        <div className={`${modalContentClass} w-[380px] md:w-[360px] sm:w-[320px] max-sm:w-[280px] backdrop-blur-md bg-gray-900/75 border border-white/10 rounded-2xl p-4 max-sm:p-3 shadow-xl`}>
+          <div className="text-center mb-3 max-sm:mb-2">
+            <h2 className="text-lg max-sm:text-base font-bold text-white">Make Your Bid</h2>
+            <p className="text-sm max-sm:text-xs text-gray-300">
+              {gameType === "WHIZ" ? `You have ${numSpades} spades` : "Bid 4 or go nil"}
+            </p>
+          </div>
+          <div className="flex flex-col gap-3">
+            <button
+              onClick={() => setSelectedBid(fixedBid)}
+              className={`${numberButtonClass} px-6 h-12 md:h-10 sm:h-9 max-sm:h-8 rounded-md text-xl md:text-lg sm:text-base max-sm:text-sm font-bold transition-all flex items-center justify-center ${selectedBid === fixedBid ? 'bg-gradient-to-br from-yellow-400 to-yellow-600 text-black ring-2 ring-yellow-200 shadow-lg' : 'bg-gray-700/80 hover:bg-gray-600/90 text-white'}`}
             >
-              Nil
+              Bid {fixedBid}
             </button>
+            {allowNil && fixedBid > 0 && (
+              <button
+                onClick={() => setSelectedBid(0)}
+                className={`${numberButtonClass} px-6 h-12 md:h-10 sm:h-9 max-sm:h-8 rounded-md text-xl md:text-lg sm:text-base max-sm:text-sm font-bold transition-all flex items-center justify-center ${selectedBid === 0 ? 'bg-gradient-to-br from-blue-500 to-blue-700 text-white ring-2 ring-blue-300 shadow-lg' : 'bg-gray-700/80 hover:bg-gray-600/90 text-white'}`}
+              >
+                Nil
+              </button>
+            )}
             <button
               onClick={() => selectedBid !== null && handleSubmit(selectedBid)}
               disabled={selectedBid === null}
@@ -1,20 +1,24 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
-import type { GameState, Card, Suit, Player, CompletedTrick, Bot } from '../../types/game';
+import { useState, useEffect, useRef, type ReactNode } from "react";
+import type { GameState, Card, Player, CompletedTrick, Bot, BotDifficulty } from '../../types/game';
 import type { ChatMessage } from '../Chat';
 import Chat from '../Chat';
 import HandSummaryModal from './HandSummaryModal';
 import WinnerModal from './WinnerModal';
 import LoserModal from './LoserModal';
+import SoloResultModal from './SoloResultModal';
 import BiddingInterface from './BiddingInterface';
+import TurnTimerRing from './TurnTimerRing';
 import { calculateHandScore } from '../../lib/scoring';
+import { BLIND_NIL, getBiddingGameType, getForcedBid, getPlayableCards, getPlayRestriction, isNilBid } from '../lib/gameRules';
 import LandscapePrompt from '../../LandscapePrompt';
 import { IoExitOutline, IoInformationCircleOutline } from "react-icons/io5";
 import { useWindowSize } from '../../hooks/useWindowSize';
 import { FaRobot } from 'react-icons/fa';
 import { FaMinus } from 'react-icons/fa';
 import { useSocket } from '../../context/SocketContext';
+import { authHeaders } from '../../lib/api';
 
 interface GameTableProps {
   game: GameState;
@@ -22,6 +26,13 @@ interface GameTableProps {
   onLeaveTable: () => void;
   startGame: (gameId: string, userId?: string) => Promise<void>;
   user?: any;
+  // Replays draw a finished game: no socket, no actions and every hand face up
+  readOnly?: boolean;
+  // Trick whose winner is highlighted, and what replaces the chat, while read-only
+  replayTrick?: CompletedTrick | null;
+  sidePanel?: ReactNode;
+  // Watching rather than playing: no seat, and hands only if the table reveals them
+  spectating?: boolean;
 }
 
 // Helper function to get card image filename
@@ -75,45 +86,16 @@ function sortCards(cards: Card[]): Card[] {
   });
 }
 
-// Add new helper functions after the existing ones
-function getLeadSuit(trick: Card[]): Suit | null {
-  return trick[0]?.suit || null;
-}
-
-function hasSpadeBeenPlayed(game: GameState): boolean {
-  // Check if any completed trick contained a spade
-  return game.completedTricks?.some((trick: any) =>
-    Array.isArray(trick.cards) && trick.cards.some((card: Card) => card.suit === '♠')
-  ) || false;
-}
-
-function canLeadSpades(game: GameState, hand: Card[]): boolean {
-  // Can lead spades if:
-  // 1. Spades have been broken, or
-  // 2. Player only has spades left
-  return hasSpadeBeenPlayed(game) || hand.every(card => card.suit === '♠');
-}
-
-function getPlayableCards(game: GameState, hand: Card[], isLeadingTrick: boolean): Card[] {
+function getPlayableCardsForTable(game: GameState, hand: Card[]): Card[] {
   if (!hand.length) return [];
+  return getPlayableCards(hand, game.currentTrick || [], game.completedTricks || [], game.specialRules);
+}
 
-  // If leading the trick
-  if (isLeadingTrick) {
-    // If spades haven't been broken, filter out spades unless only spades remain
-    if (!canLeadSpades(game, hand)) {
-      const nonSpades = hand.filter(card => card.suit !== '♠');
-      return nonSpades.length > 0 ? nonSpades : hand;
-    }
-    return hand;
-  }
-
-  // If following
-  const leadSuit = getLeadSuit(game.currentTrick);
-  if (!leadSuit) return [];
+// Violations that come from the table's special rule rather than ordinary spades rules
+const SPECIAL_RULE_VIOLATIONS = ['SCREAMER_NO_SPADES', 'ASSASSIN_MUST_CUT', 'ASSASSIN_MUST_LEAD_SPADES'];
 
-  // Must follow suit if possible
-  const suitCards = hand.filter(card => card.suit === leadSuit);
-  return suitCards.length > 0 ? suitCards : hand;
+function getPlayRestrictionForTable(game: GameState, hand: Card[], card: Card) {
+  return getPlayRestriction(card, hand, game.currentTrick || [], game.completedTricks || [], game.specialRules);
 }
 
 // Add this near the top of the file, after imports
@@ -124,7 +106,6 @@ declare global {
       winnerIndex: number;
       timeout: any;
     } | null;
-    __sentJoinSystemMessage: string | null;
   }
 }
 
@@ -149,8 +130,8 @@ function canInviteBot({
 }) {
   if (!currentPlayerId) return false;
   if (isPreGame) {
-    // Only host (seat 0) can invite bots pre-game
-    return sanitizedPlayers[0]?.id === currentPlayerId && gameState.status === 'WAITING';
+    // Only the table creator can invite bots pre-game
+    return gameState.creatorId === currentPlayerId && gameState.status === 'WAITING';
   } else {
     // Mid-game: only the partner of the empty seat can invite a bot
     // Partner is seat (seatIndex + 2) % 4
@@ -159,6 +140,13 @@ function canInviteBot({
   }
 }
 
+// Badge colours for the bot difficulty shown on the seat
+const DIFFICULTY_BADGE_CLASSES: Record<BotDifficulty, string> = {
+  easy: 'bg-green-600',
+  medium: 'bg-yellow-600',
+  hard: 'bg-red-600',
+};
+
 // Type guards for Player and Bot
 function isPlayer(p: Player | Bot | null): p is Player {
   return !!p && typeof p === 'object' && ((('type' in p) && p.type !== 'bot') || !('type' in p));
@@ -166,6 +154,11 @@ function isPlayer(p: Player | Bot | null): p is Player {
 function isBot(p: Player | Bot | null): p is Bot {
   return !!p && typeof p === 'object' && 'type' in p && p.type === 'bot';
 }
+// The name a seat goes by, for players and bots alike
+function seatName(p: Player | Bot | null): string {
+  if (isBot(p)) return p.username;
+  return isPlayer(p) ? p.username || p.name : '';
+}
 
 // Add this utility function at the top (after imports)
 const formatCoins = (value: number) => {
@@ -180,13 +173,20 @@ export default function GameTable({
   joinGame, 
   onLeaveTable,
   startGame,
-  user: propUser
+  user: propUser,
+  readOnly = false,
+  replayTrick = null,
+  sidePanel,
+  spectating = false
 }: GameTableProps) {
-  const { socket, isAuthenticated } = useSocket();
+  const { socket: liveSocket } = useSocket();
+  // Without a socket none of the live table's listeners or actions run
+  const socket = readOnly ? null : liveSocket;
   const [isMobile, setIsMobile] = useState(false);
   const [showHandSummary, setShowHandSummary] = useState(false);
   const [showWinner, setShowWinner] = useState(false);
   const [showLoser, setShowLoser] = useState(false);
+  const [showSoloResult, setShowSoloResult] = useState(false);
   
   // Use the windowSize hook to get responsive information
   const windowSize = useWindowSize();
@@ -212,6 +212,10 @@ export default function GameTable({
 
   // Find the current player's position and team
   const currentPlayer = sanitizedPlayers.find((p): p is Player | Bot => !!p && p.id === currentPlayerId) || null;
+  const mySeatIndex = sanitizedPlayers.findIndex(p => p?.id === currentPlayerId);
+  const awaitingBlindNil = gameState.status === 'BIDDING' && mySeatIndex !== -1 && !!gameState.bidding?.awaitingBlindNil?.[mySeatIndex];
+  // A bot took over this user's seat while they were away
+  const myStandIn = sanitizedPlayers.find((p): p is Bot => isBot(p) && p.standingInFor?.id === currentPlayerId) || null;
   
   // Add state to force component updates when the current player changes
   const [lastCurrentPlayer, setLastCurrentPlayer] = useState<string>(gameState.currentPlayer);
@@ -301,15 +305,29 @@ export default function GameTable({
     }
     
     console.log(`Submitting bid: ${bid} for player ${currentPlayerId} in game ${gameState.id}`);
-    socket?.emit("make_bid", { gameId: gameState.id, userId: currentPlayerId, bid });
+    socket?.emit("make_bid", { gameId: gameState.id, bid });
     console.log('Game status:', gameState.status, 'Current player:', gameState.currentPlayer);
     console.log('Socket connected:', socket?.connected);
   };
 
+  // Send the stand-in bot away and play the seat again
+  const handleTakeBackSeat = () => {
+    socket?.emit('resume_game', { gameId: gameState.id });
+  };
+
+  // Decline blind nil and show this player's cards
+  const handleRevealHand = () => {
+    if (!socket || !currentPlayerId) return;
+    socket.emit('reveal_hand', { gameId: gameState.id });
+  };
+
   // Add at the top of the GameTable component, after useState declarations
   const [invitingBotSeat, setInvitingBotSeat] = useState<number | null>(null);
+  // Seat whose invite button is showing the difficulty picker
+  const [botMenuSeat, setBotMenuSeat] = useState<number | null>(null);
 
-  const handleInviteBot = async (seatIndex: number) => {
+  const handleInviteBot = async (seatIndex: number, difficulty: BotDifficulty) => {
+    setBotMenuSeat(null);
     setInvitingBotSeat(seatIndex);
     try {
       const endpoint = gameState.status === 'WAITING'
@@ -319,8 +337,8 @@ export default function GameTable({
       console.log('Inviting bot to seat:', seatIndex);
       const res = await fetch(endpoint, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ seatIndex, requesterId: currentPlayerId }),
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({ seatIndex, difficulty }),
       });
       
       if (!res.ok) {
@@ -331,7 +349,6 @@ export default function GameTable({
         const updatedGame = await res.json();
         console.log('Bot invited successfully:', updatedGame);
         setGameState(updatedGame);
-        setPendingSystemMessage(`A bot was invited to seat ${seatIndex + 1}.`);
       }
     } catch (err) {
       console.error('Error inviting bot:', err);
@@ -341,6 +358,77 @@ export default function GameTable({
     }
   };
 
+  // Creator only, before the game starts
+  const handleKickPlayer = async (seatIndex: number) => {
+    try {
+      const res = await fetch(`/api/games/${gameState.id}/kick`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({ seatIndex }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        alert('Failed to kick player: ' + (error.error || 'Unknown error'));
+      } else {
+        setGameState(await res.json());
+      }
+    } catch (err) {
+      alert('Failed to kick player');
+    }
+  };
+
+  // --- Seating before the start ---
+  const [arrangingSeats, setArrangingSeats] = useState(false);
+  // Seat the creator picked first while arranging, to be swapped with the next one picked
+  const [arrangeFromSeat, setArrangeFromSeat] = useState<number | null>(null);
+  const isArranging = arrangingSeats && gameState.status === 'WAITING' && gameState.creatorId === currentPlayerId;
+
+  const postSeating = async (action: string, body: object, failure: string) => {
+    try {
+      const res = await fetch(`/api/games/${gameState.id}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        alert(`${failure}: ` + (error.error || 'Unknown error'));
+      } else {
+        setGameState(await res.json());
+      }
+    } catch (err) {
+      alert(failure);
+    }
+  };
+  // A free seat or a bot's is taken straight away; another player is asked first
+  const handleSwapSeat = (seatIndex: number) => postSeating('swap-seat', { seatIndex }, 'Failed to change seats');
+  const handleSwapResponse = (fromUserId: string, accept: boolean) =>
+    postSeating('swap-response', { fromUserId, accept }, 'Failed to answer the swap request');
+  const handleReady = (ready: boolean) => postSeating('ready', { ready }, 'Failed to update ready status');
+  const handleArrangeSeat = (seatIndex: number) => {
+    if (arrangeFromSeat === null) {
+      setArrangeFromSeat(seatIndex);
+      return;
+    }
+    if (arrangeFromSeat !== seatIndex) {
+      postSeating('arrange-seats', { fromSeat: arrangeFromSeat, toSeat: seatIndex }, 'Failed to arrange seats');
+    }
+    setArrangeFromSeat(null);
+  };
+
+  // The link seats whoever opens it, which is how unlisted and password tables fill up
+  const [inviteLinkCopied, setInviteLinkCopied] = useState(false);
+  const handleCopyInviteLink = async () => {
+    if (!gameState.inviteCode) return;
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/table/${gameState.id}?invite=${gameState.inviteCode}`);
+      setInviteLinkCopied(true);
+      setTimeout(() => setInviteLinkCopied(false), 2000);
+    } catch (err) {
+      alert('Failed to copy the invite link');
+    }
+  };
+
   // Add remove bot handler
   const handleRemoveBot = async (seatIndex: number) => {
     try {
@@ -349,8 +437,8 @@ export default function GameTable({
         : `/api/games/${gameState.id}/remove-bot-midgame`;
       const res = await fetch(endpoint, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ seatIndex, requesterId: currentPlayerId }),
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({ seatIndex }),
       });
       if (!res.ok) {
         const error = await res.json();
@@ -359,7 +447,6 @@ export default function GameTable({
         // Update the local game state with the new data from the server
         const updatedGame = await res.json();
         setGameState(updatedGame);
-        setPendingSystemMessage(`A bot was removed from seat ${seatIndex + 1}.`);
       }
     } catch (err) {
       alert('Failed to remove bot');
@@ -395,8 +482,26 @@ export default function GameTable({
     };
 
     console.log('Rendering player position', position, player);
+    // Seats are drawn rotated so this user sits at the bottom; the server counts them unrotated
+    const seatIndex = (position + (currentPlayer?.position ?? 0)) % 4;
+    // While the creator arranges seats every seat is a target, empty or not
+    if (isArranging) {
+      const isPicked = arrangeFromSeat === seatIndex;
+      return (
+        <div className={`absolute ${getPositionClasses(position)} z-30`}>
+          <button
+            className={`w-16 h-16 rounded-full border-2 text-white text-[10px] flex flex-col items-center justify-center overflow-hidden transition ${isPicked ? 'border-yellow-400 bg-yellow-600/60' : 'border-dashed border-slate-300 bg-slate-600/80 hover:bg-slate-500'}`}
+            onClick={() => handleArrangeSeat(seatIndex)}
+            title={arrangeFromSeat === null ? 'Pick a seat to move' : 'Swap with the picked seat'}
+          >
+            {player && <img src={player.avatar || '/bot-avatar.jpg'} alt="" className="w-8 h-8 rounded-full object-cover" />}
+            <span className="truncate max-w-[56px]">{player ? seatName(player) : 'Empty'}</span>
+          </button>
+        </div>
+      );
+    }
     // If observer and seat is empty, show join button
-    if (isObserver && !player) {
+    if (isObserver && !spectating && !player && !readOnly) {
       return (
         <div className={`absolute ${getPositionClasses(position)} z-10`}>
           <button
@@ -409,10 +514,10 @@ export default function GameTable({
       );
     }
     // If seat is empty and user can invite a bot, show Invite Bot button
-    if (!player && currentPlayerId && canInviteBot({
+    if (!player && !readOnly && currentPlayerId && canInviteBot({
       gameState,
       currentPlayerId,
-      seatIndex: position,
+      seatIndex,
       isPreGame: gameState.status === 'WAITING',
       sanitizedPlayers: sanitizedPlayers.filter((p): p is Player | null => isPlayer(p) || p === null),
     })) {
@@ -420,8 +525,8 @@ export default function GameTable({
         <div className={`absolute ${getPositionClasses(position)} z-10`}>
           <button
             className="w-16 h-16 rounded-full bg-gray-600 border border-slate-300 text-white flex flex-col items-center justify-center hover:bg-gray-500 transition disabled:opacity-50 p-0 py-1"
-            onClick={() => handleInviteBot(position)}
-            disabled={invitingBotSeat === position}
+            onClick={() => setBotMenuSeat(botMenuSeat === position ? null : position)}
+            disabled={invitingBotSeat === seatIndex}
             style={{ fontSize: '10px', lineHeight: 1.1 }}
           >
             <span className="text-[10px] leading-tight mb-0">Invite</span>
@@ -429,7 +534,33 @@ export default function GameTable({
               <span className="text-lg font-bold mr-0.5">+</span>
               <FaRobot className="w-4 h-4" />
             </span>
-            <span className="text-[10px] leading-tight mt-0">{invitingBotSeat === position ? '...' : 'Bot'}</span>
+            <span className="text-[10px] leading-tight mt-0">{invitingBotSeat === seatIndex ? '...' : 'Bot'}</span>
+          </button>
+          {botMenuSeat === position && (
+            <div className="absolute left-1/2 -translate-x-1/2 top-full mt-1 flex gap-1 bg-gray-800 border border-slate-500 rounded-lg p-1 shadow-lg">
+              {(['easy', 'medium', 'hard'] as BotDifficulty[]).map(difficulty => (
+                <button
+                  key={difficulty}
+                  className="px-2 py-0.5 text-[10px] text-white rounded bg-gray-600 hover:bg-gray-500 capitalize"
+                  onClick={() => handleInviteBot(seatIndex, difficulty)}
+                >
+                  {difficulty}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      );
+    }
+    // Anyone seated can move to a free seat before the start
+    if (!player && !readOnly && !isObserver && gameState.status === 'WAITING') {
+      return (
+        <div className={`absolute ${getPositionClasses(position)} z-10`}>
+          <button
+            className="w-16 h-16 rounded-full bg-slate-600 border border-dashed border-slate-300 text-slate-200 text-xs flex items-center justify-center hover:bg-slate-500 transition"
+            onClick={() => handleSwapSeat(seatIndex)}
+          >
+            Sit here
           </button>
         </div>
       );
@@ -454,20 +585,24 @@ export default function GameTable({
     const tricksLeft = 13 - (gameState.completedTricks?.length || 0);
     const isPartnerGame = (gameState.gameMode || gameState.rules?.gameType) === 'PARTNERS';
     const isSoloGame = (gameState.gameMode || gameState.rules?.gameType) === 'SOLO';
+    // A zero bid in Mirror or Bid Hearts is an ordinary contract, not a nil
+    const isZeroContract = player.bid === 0 && !isNilBid(gameState, 0);
+    const isNilContract = bidCount <= 0 && !isZeroContract;
     // Find partner (for 4p, partner is (position+2)%4)
-    let teamBid = bidCount;
+    // Nil and blind nil add nothing to the contract
+    let teamBid = Math.max(bidCount, 0);
     let teamMade = madeCount;
     if (isPartnerGame) {
       const partnerIndex = (position + 2) % 4;
       const partner = orderedPlayers[partnerIndex];
       const partnerBid = partner && partner.bid !== undefined ? partner.bid : 0;
       const partnerMade = partner && partner.tricks ? partner.tricks : 0;
-      teamBid += partnerBid;
+      teamBid += Math.max(partnerBid, 0);
       teamMade += partnerMade;
       // Nil logic: if player bid 0 (nil) and made > 0, show cross for that player only
-      if (bidCount === 0 && madeCount > 0) {
+      if (isNilContract && madeCount > 0) {
         madeStatus = '❌';
-      } else if (teamMade >= teamBid && teamBid > 0) {
+      } else if (teamMade >= teamBid && (teamBid > 0 || isZeroContract)) {
         madeStatus = '✅';
       } else if (teamMade + tricksLeft < teamBid && teamBid > 0) {
         madeStatus = '❌';
@@ -476,9 +611,9 @@ export default function GameTable({
       }
     } else if (isSoloGame) {
       // Solo: tick/cross only for self
-      if (bidCount === 0 && madeCount > 0) {
+      if (isNilContract && madeCount > 0) {
         madeStatus = '❌';
-      } else if (madeCount >= bidCount && bidCount > 0) {
+      } else if (madeCount >= bidCount && (bidCount > 0 || isZeroContract)) {
         madeStatus = '✅';
       } else if (madeCount + tricksLeft < bidCount && bidCount > 0) {
         madeStatus = '❌';
@@ -491,18 +626,25 @@ export default function GameTable({
     }
     // --- END NEW LOGIC ---
 
-    // Permission to remove bot: host (pre-game) or partner (mid-game)
+    // Permission to remove bot: creator (pre-game) or partner (mid-game)
     const canRemoveBot = (() => {
-      if (!currentPlayerId) return false;
+      if (readOnly || !currentPlayerId || !isBot(player)) return false;
       if (gameState.status === 'WAITING') {
-        // Host (seat 0) can always remove bots pre-game
-        return sanitizedPlayers[0]?.id === currentPlayerId;
+        // The creator can always remove bots pre-game
+        return gameState.creatorId === currentPlayerId;
       } else {
-        // Mid-game: partner (seat (position+2)%4) can remove bots
-        const partnerIndex = (position + 2) % 4;
+        // Mid-game: partner (seat (seatIndex+2)%4) can remove bots
+        const partnerIndex = (seatIndex + 2) % 4;
         return sanitizedPlayers[partnerIndex]?.id === currentPlayerId;
       }
     })();
+    // The creator can clear other players out of their seats before the start
+    const canKick = !readOnly && gameState.status === 'WAITING' && gameState.creatorId === currentPlayerId
+      && !isBot(player) && player.id !== currentPlayerId;
+    // Before the start, anyone seated can take a bot's seat or ask a player to trade
+    const canSwap = !readOnly && !isObserver && gameState.status === 'WAITING' && player.id !== currentPlayerId;
+    const swapAsked = !!gameState.swapRequests?.some(r => r.fromUserId === currentPlayerId && r.toUserId === player.id);
+    const isReady = gameState.status === 'WAITING' && !isBot(player) && !!gameState.readyPlayers?.includes(player.id);
     return (
       <div className={`absolute ${getPositionClasses(position)} z-30`}>
         <div className={`
@@ -521,16 +663,33 @@ export default function GameTable({
                     height={avatarHeight}
                     className="rounded-full object-cover"
                   />
-                  {canRemoveBot && (
+                  {(canRemoveBot || canKick) && (
                     <button
                       className="absolute -bottom-1 -left-1 w-4 h-4 bg-red-600 text-white rounded-full flex items-center justify-center text-xs border-2 border-white shadow hover:bg-red-700 transition z-50"
-                      title="Remove Bot"
-                      onClick={() => handleRemoveBot(position)}
+                      title={canKick ? "Kick Player" : "Remove Bot"}
+                      onClick={() => (canKick ? handleKickPlayer(seatIndex) : handleRemoveBot(seatIndex))}
                       style={{ zIndex: 50 }}
                     >
                       <FaMinus className="w-2.5 h-2.5" />
                     </button>
                   )}
+                  {isReady && (
+                    <div
+                      className="absolute -top-1 -left-1 w-4 h-4 bg-green-600 text-white rounded-full flex items-center justify-center text-[9px] font-bold border-2 border-white shadow"
+                      title="Ready"
+                    >
+                      ✓
+                    </div>
+                  )}
+                  {/* Difficulty badge for bots */}
+                  {isBot(player) && player.difficulty && (
+                    <div
+                      className={`absolute -top-1 -right-1 px-1 rounded text-[8px] font-bold uppercase text-white shadow ${DIFFICULTY_BADGE_CLASSES[player.difficulty]}`}
+                      title={`${player.difficulty} bot`}
+                    >
+                      {player.difficulty[0]}
+                    </div>
+                  )}
                   {/* Dealer chip for bots */}
                   {player.isDealer && (
                     <>
@@ -546,11 +705,23 @@ export default function GameTable({
                   )}
                 </div>
               </div>
+              {/* The clock on timed tables, for whoever is to act */}
+              {isActive && gameState.turnDeadline && gameState.rules?.turnTimeLimit && (
+                <TurnTimerRing
+                  deadline={gameState.turnDeadline}
+                  limitSeconds={gameState.rules.turnTimeLimit}
+                  size={avatarWidth}
+                />
+              )}
             </div>
             <div className="flex flex-col items-center gap-1">
               <div className={`w-full px-2 py-1 rounded-lg shadow-sm ${teamGradient}`} style={{ width: isMobile ? '50px' : '70px' }}>
-                <div className="text-white font-medium truncate text-center" style={{ fontSize: isMobile ? '9px' : '11px' }}>
-                  Bot
+                <div
+                  className="text-white font-medium truncate text-center"
+                  style={{ fontSize: isMobile ? '9px' : '11px' }}
+                  title={player.standingInFor ? `Playing for ${player.standingInFor.username || player.standingInFor.name}` : undefined}
+                >
+                  {player.standingInFor ? `Bot for ${player.standingInFor.username || player.standingInFor.name}` : 'Bot'}
                 </div>
               </div>
               {/* Bid/Trick counter for bots, same as humans */}
@@ -561,15 +732,63 @@ export default function GameTable({
                 </span>
                 <span className="text-white/70" style={{ fontSize: isMobile ? '9px' : '11px' }}>/</span>
                 <span className="text-white font-semibold" style={{ fontSize: isMobile ? '9px' : '11px' }}>
-                  {gameState.status === "WAITING" ? "0" : bidCount}
+                  {gameState.status === "WAITING" ? "0" : bidCount === BLIND_NIL ? "BN" : bidCount}
                 </span>
                 <span style={{ fontSize: isMobile ? '10px' : '12px' }} className="ml-1">
                   {madeStatus}
                 </span>
               </div>
+              {/* The server holds a dropped player's seat for a while */}
+              {player.disconnectedAt && (
+                <div
+                  className="px-2 py-0.5 rounded-full bg-amber-500/90 text-black font-semibold animate-pulse"
+                  style={{ fontSize: isMobile ? '8px' : '10px' }}
+                  title="Connection lost, holding this seat"
+                >
+                  Reconnecting...
+                </div>
+              )}
+              {canSwap && (
+                <button
+                  className="px-2 py-0.5 rounded-full bg-slate-600 hover:bg-slate-500 text-white disabled:opacity-60"
+                  style={{ fontSize: isMobile ? '8px' : '10px' }}
+                  onClick={() => handleSwapSeat(seatIndex)}
+                  disabled={swapAsked}
+                  title={isBot(player) ? 'Take this seat' : 'Ask to swap seats'}
+                >
+                  {swapAsked ? 'Asked...' : '⇄ Swap'}
+                </button>
+              )}
             </div>
           </div>
         </div>
+        {(readOnly || spectating) && position !== 0 && renderFaceUpHand(player.hand, false)}
+      </div>
+    );
+  };
+
+  // Replays show every seat's cards; the bottom seat gets full size cards like a live hand
+  const renderFaceUpHand = (hand: Card[] | undefined, fullSize: boolean) => {
+    if (!hand?.length) return null;
+    const cardUIWidth = fullSize ? Math.floor(isMobile ? 80 : 100 * scaleFactor) : Math.floor(isMobile ? 20 : 32 * scaleFactor);
+    const cardUIHeight = fullSize ? Math.floor(isMobile ? 110 : 140 * scaleFactor) : Math.floor(isMobile ? 28 : 45 * scaleFactor);
+    const overlapOffset = fullSize ? Math.floor(isMobile ? -48 : -40 * scaleFactor) : -Math.floor(cardUIWidth * 0.55);
+    return (
+      <div
+        className={fullSize ? "absolute inset-x-0 flex justify-center" : "flex justify-center mt-1"}
+        style={fullSize ? { bottom: '-40px' } : undefined}
+      >
+        {sortCards(hand).map((card: Card, index: number) => (
+          <img
+            key={`${card.suit}${card.rank}`}
+            src={`/cards/${getCardImage(card)}`}
+            alt={`${card.rank}${card.suit}`}
+            width={cardUIWidth}
+            height={cardUIHeight}
+            className="rounded shadow-md"
+            style={{ marginLeft: index > 0 ? `${overlapOffset}px` : '0', zIndex: index, objectFit: 'cover' }}
+          />
+        ))}
       </div>
     );
   };
@@ -635,35 +854,56 @@ export default function GameTable({
   }, [handImagesLoaded, currentPlayer && currentPlayer.hand && currentPlayer.hand.map(c => `${c.suit}${c.rank}`).join(",")]);
 
   const renderPlayerHand = () => {
+    if (awaitingBlindNil) {
+      return (
+        <div className="flex flex-col items-center justify-center h-full gap-2 text-white">
+          <span className="text-sm text-gray-300">Your cards are face down. You may bid blind nil.</span>
+          <button
+            onClick={handleRevealHand}
+            className="px-4 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-sm font-semibold"
+          >
+            Look at Cards
+          </button>
+        </div>
+      );
+    }
     if (!currentPlayer || !currentPlayer.hand) return null;
     const sortedHand = sortCards(currentPlayer.hand);
     if (!handImagesLoaded) {
       return null;
     }
     // All cards are in their final positions, but only the first dealtCardCount are visible
-    const isLeadingTrick = currentTrick.length === 0;
-    const playableCards = gameState.status === "PLAYING" && currentPlayer ? getPlayableCards(gameState, currentPlayer.hand || [], isLeadingTrick) : [];
+    const playableCards = gameState.status === "PLAYING" && currentPlayer ? getPlayableCardsForTable(gameState, currentPlayer.hand || []) : [];
     const cardUIWidth = Math.floor(isMobile ? 80 : 100 * scaleFactor);
     const cardUIHeight = Math.floor(isMobile ? 110 : 140 * scaleFactor);
     const overlapOffset = Math.floor(isMobile ? -48 : -40 * scaleFactor);
+    const isMyPlayTurn = gameState.status === "PLAYING" && gameState.currentPlayer === currentPlayerId;
+    const restrictions = sortedHand.map(card => isMyPlayTurn ? getPlayRestrictionForTable(gameState, currentPlayer.hand, card) : null);
+    // Special rules are easy to forget, so spell out why cards are greyed out
+    const specialRuleHint = restrictions.find(r => r && SPECIAL_RULE_VIOLATIONS.includes(r.code))?.message;
 
     return (
       <div
-        className="absolute inset-x-0 flex justify-center"
+        className="absolute inset-x-0 flex flex-col items-center"
         style={{
           bottom: '-40px',
           pointerEvents: 'none',
         }}
       >
+        {specialRuleHint && (
+          <div className="mb-1 px-3 py-1 bg-gray-900/80 text-yellow-300 text-xs font-semibold rounded-full shadow">
+            {specialRuleHint}
+          </div>
+        )}
         <div className="flex">
           {sortedHand.map((card: Card, index: number) => {
-            const isPlayable = gameState.status === "PLAYING" &&
-              gameState.currentPlayer === currentPlayerId &&
+            const isPlayable = isMyPlayTurn &&
               playableCards.some((c: Card) => c.suit === card.suit && c.rank === card.rank);
             const isVisible = index < dealtCardCount;
             return (
               <div
                 key={`${card.suit}${card.rank}`}
+                title={restrictions[index]?.message}
                 className={`relative transition-opacity duration-300 ${isPlayable ? 'cursor-pointer' : 'cursor-not-allowed'}`}
                 style={{
                   width: `${cardUIWidth}px`,
@@ -727,6 +967,24 @@ export default function GameTable({
     };
   }, [socket, gameState.id, gameState.status, sanitizedPlayers, showHandSummary]);
 
+  // The server deals the next hand on its own after a short pause
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleNewHandStarted = () => {
+      setShowHandSummary(false);
+      if (typeof window !== 'undefined') {
+        window.lastCompletedTrick = null;
+      }
+    };
+
+    socket.on('new_hand_started', handleNewHandStarted);
+
+    return () => {
+      socket.off('new_hand_started', handleNewHandStarted);
+    };
+  }, [socket]);
+
   // Initialize the global variable
   useEffect(() => {
     if (typeof window !== 'undefined') {
@@ -738,6 +996,13 @@ export default function GameTable({
   const team1Score = gameState?.scores?.['team1'] ?? 0;
   const team2Score = gameState?.scores?.['team2'] ?? 0;
   const team1Bags = gameState?.team1Bags ?? 0;
+  const isSoloTable = (gameState.gameMode || gameState.rules?.gameType) === 'SOLO';
+  const getSeatName = (seatIndex: number) => {
+    const seatPlayer = sanitizedPlayers[seatIndex];
+    if (isPlayer(seatPlayer)) return seatPlayer.name || seatPlayer.username || `Seat ${seatIndex + 1}`;
+    if (isBot(seatPlayer)) return seatPlayer.username;
+    return `Seat ${seatIndex + 1}`;
+  };
   const team2Bags = gameState?.team2Bags ?? 0;
 
   // Update cardPlayers when game state changes
@@ -751,10 +1016,14 @@ export default function GameTable({
   useEffect(() => {
     if (!socket) return;
 
-    const handleGameOver = (data: { team1Score: number; team2Score: number; winningTeam: 1 | 2 }) => {
+    const handleGameOver = (
+      data: { team1Score: number; team2Score: number; winningTeam: 1 | 2 } | { playerScores: number[]; placements: number[] }
+    ) => {
       console.log('Game over event received:', data);
       setShowHandSummary(false);
-      if (data.winningTeam === 1) {
+      if ('placements' in data) {
+        setShowSoloResult(true);
+      } else if (data.winningTeam === 1) {
         setShowWinner(true);
       } else {
         setShowLoser(true);
@@ -770,16 +1039,18 @@ export default function GameTable({
 
   // Effect to handle game status changes
   useEffect(() => {
-    if (gameState.status === "COMPLETED") {
+    if (gameState.status === "COMPLETED" && !readOnly) {
       const winningTeam = gameState.winningTeam === "team1" ? 1 : 2;
       setShowHandSummary(false);
-      if (winningTeam === 1) {
+      if (gameState.placements) {
+        setShowSoloResult(true);
+      } else if (winningTeam === 1) {
         setShowWinner(true);
       } else {
         setShowLoser(true);
       }
     }
-  }, [gameState.status, gameState.winningTeam]);
+  }, [gameState.status, gameState.winningTeam, gameState.placements, readOnly]);
 
   const [showGameInfo, setShowGameInfo] = useState(false);
   const infoRef = useRef<HTMLDivElement>(null);
@@ -804,7 +1075,8 @@ export default function GameTable({
   // Modify the renderTrickCards function
   const renderTrickCards = () => {
     // Use completed trick if available, otherwise use current trick
-    const displayTrick = completedTrick ? completedTrick.cards : currentTrick;
+    const shownTrick = readOnly ? replayTrick : completedTrick;
+    const displayTrick = shownTrick ? shownTrick.cards : currentTrick;
     if (!displayTrick?.length) return null;
 
     return displayTrick.map((card: Card, index: number) => {
@@ -827,9 +1099,9 @@ export default function GameTable({
         3: 'absolute right-[20%] top-1/2 transform -translate-y-1/2'
       };
 
-      const isWinningCard = completedTrick && 
-        card.suit === completedTrick.winningCard.suit && 
-        card.rank === completedTrick.winningCard.rank;
+      const isWinningCard = shownTrick && 
+        card.suit === shownTrick.winningCard.suit && 
+        card.rank === shownTrick.winningCard.rank;
 
       // Calculate card dimensions using the same approach as player's hand
       const cardUIWidth = windowSize.width < 640 ? 25 : Math.floor(96 * getScaleFactor());
@@ -875,6 +1147,12 @@ export default function GameTable({
     socket.emit('play_again', { gameId: gameState.id });
   };
 
+  // Leave the finished table and step back through it on the replay page
+  const handleWatchReplay = () => {
+    socket?.emit('leave_game', { gameId: gameState.id });
+    window.location.href = `/replay/${gameState.id}`;
+  };
+
   useEffect(() => {
     if (!socket) return;
 
@@ -888,7 +1166,7 @@ export default function GameTable({
       setShowWinner(false);
       setShowLoser(false);
       if (socket) {
-        socket.emit('leave_game', { gameId: gameState.id, userId: propUser?.id });
+        socket.emit('leave_game', { gameId: gameState.id });
       }
       onLeaveTable();
     });
@@ -924,6 +1202,65 @@ export default function GameTable({
     };
   }, [socket]);
 
+  // Show the server's reason when it rejects a bid or card
+  const [illegalMoveMessage, setIllegalMoveMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const handleIllegalMove = (data: { gameId: string; code: string; message: string }) => {
+      if (data.gameId !== gameState.id) return;
+      console.warn('Illegal move rejected by server:', data);
+      setIllegalMoveMessage(data.message);
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => setIllegalMoveMessage(null), 3000);
+    };
+
+    socket.on('illegal_move', handleIllegalMove);
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      socket.off('illegal_move', handleIllegalMove);
+    };
+  }, [socket, gameState.id]);
+
+  // A player the creator kicked goes back to the lobby
+  useEffect(() => {
+    if (!socket || !currentPlayerId) return;
+
+    const handlePlayerKicked = (data: { gameId: string; userId: string }) => {
+      if (data.gameId !== gameState.id || data.userId !== currentPlayerId) return;
+      alert('The table creator removed you from this game.');
+      socket.emit('leave_game', { gameId: gameState.id });
+      onLeaveTable();
+    };
+
+    socket.on('player_kicked', handlePlayerKicked);
+
+    return () => {
+      socket.off('player_kicked', handlePlayerKicked);
+    };
+  }, [socket, gameState.id, currentPlayerId, onLeaveTable]);
+
+  // Running out the clock too often hands the seat to a bot and sends the player back to the lobby
+  useEffect(() => {
+    if (!socket || !currentPlayerId) return;
+
+    const handlePlayerForfeited = (data: { gameId: string; seatIndex: number; userId: string }) => {
+      if (data.gameId !== gameState.id || data.userId !== currentPlayerId) return;
+      alert('You ran out of time too many times and forfeited this game.');
+      socket.emit('leave_game', { gameId: gameState.id });
+      onLeaveTable();
+    };
+
+    socket.on('player_forfeited', handlePlayerForfeited);
+
+    return () => {
+      socket.off('player_forfeited', handlePlayerForfeited);
+    };
+  }, [socket, gameState.id, currentPlayerId, onLeaveTable]);
+
   // When playing a card, we now rely solely on server data for tracking
   const handlePlayCard = (card: Card) => {
     if (!socket || !currentPlayerId || !currentPlayer) return;
@@ -935,8 +1272,7 @@ export default function GameTable({
     }
 
     // Check if card is playable
-    const isLeadingTrick = currentTrick.length === 0;
-    const playableCards = currentPlayer ? getPlayableCards(gameState, currentPlayer.hand, isLeadingTrick) : [];
+    const playableCards = currentPlayer ? getPlayableCardsForTable(gameState, currentPlayer.hand) : [];
     if (!playableCards.some((c: Card) => c.suit === card.suit && c.rank === card.rank)) {
       console.error('This card is not playable in the current context');
       return;
@@ -962,13 +1298,24 @@ export default function GameTable({
     console.log("Leave Table clicked");
     console.log("Socket connected:", socket?.connected);
     if (socket) {
-      socket.emit('leave_game', { gameId: gameState.id, userId: currentPlayerId });
+      socket.emit('leave_game', { gameId: gameState.id });
     } else {
       console.error("Socket is undefined. Cannot emit leave_game event.");
     }
     onLeaveTable();
   };
 
+  const creatorSeat = sanitizedPlayers.find(p => p?.id === gameState.creatorId) ?? null;
+  // The ready check: every seat filled and every player confirmed (bots are always ready)
+  const seatedCount = sanitizedPlayers.filter(Boolean).length;
+  const humanSeats = sanitizedPlayers.filter(isPlayer);
+  const readyCount = humanSeats.filter(p => gameState.readyPlayers?.includes(p.id)).length;
+  const allReady = seatedCount === 4 && readyCount === humanSeats.length;
+  const amReady = !!currentPlayerId && !!gameState.readyPlayers?.includes(currentPlayerId);
+  const incomingSwaps = gameState.status === 'WAITING'
+    ? (gameState.swapRequests ?? []).filter(r => r.toUserId === currentPlayerId)
+    : [];
+
   const handleStartGame = async () => {
     if (!currentPlayerId) return;
     
@@ -978,38 +1325,26 @@ export default function GameTable({
       return;
     }
     
-    // Make sure the game has enough players
-    if (sanitizedPlayers.length < 4) {
-      console.error(`Cannot start game: only ${sanitizedPlayers.length}/4 players joined`);
+    // Make sure the table is full and everyone has confirmed
+    if (!allReady) {
+      console.error(`Cannot start game: ${seatedCount}/4 seated, ${readyCount}/${humanSeats.length} ready`);
       return;
     }
     
-    // Make sure current user is the creator (first player)
-    if (sanitizedPlayers[0]?.id !== currentPlayerId) {
-      console.error(`Cannot start game: current user ${currentPlayerId} is not the creator ${sanitizedPlayers[0]?.id}`);
+    // Make sure current user is the creator
+    if (gameState.creatorId !== currentPlayerId) {
+      console.error(`Cannot start game: current user ${currentPlayerId} is not the creator ${gameState.creatorId}`);
       return;
     }
     
     try {
-      console.log(`Starting game ${gameState.id} as user ${currentPlayerId}, creator: ${sanitizedPlayers[0]?.id}`);
+      console.log(`Starting game ${gameState.id} as user ${currentPlayerId}, creator: ${gameState.creatorId}`);
       await startGame(gameState.id, currentPlayerId);
-      setPendingSystemMessage('Game started! GOOD LUCK!');
     } catch (error) {
       console.error("Failed to start game:", error);
     }
   };
 
-  // At the top of the component:
-  const [pendingSystemMessage, setPendingSystemMessage] = useState<string | null>(null);
-
-  // Add this useEffect:
-  useEffect(() => {
-    if (pendingSystemMessage && socket && isAuthenticated) {
-      sendSystemMessage(pendingSystemMessage);
-      setPendingSystemMessage(null);
-    }
-  }, [pendingSystemMessage, socket, isAuthenticated]);
-
   // --- Lobby chat toggle state ---
   const [chatType, setChatType] = useState<'game' | 'lobby'>('game');
   const [lobbyMessages, setLobbyMessages] = useState<ChatMessage[]>([]);
@@ -1028,43 +1363,6 @@ export default function GameTable({
   // Loosen the chatReady guard so Chat UI renders as soon as gameState.id and currentPlayerId are available
   const chatReady = gameState?.id && currentPlayerId;
 
-  // Add a new effect to handle socket reconnection and message sending
-  useEffect(() => {
-    if (!socket || !isAuthenticated || !gameState?.id || !user?.username) return;
-
-    // Only send the join system message once per session
-    if (window.__sentJoinSystemMessage !== gameState.id) {
-      const systemMessage = {
-        id: `system-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        userId: 'system',
-        userName: 'System',
-        message: `${user.username} joined the game.`,
-        timestamp: Date.now(),
-        isGameMessage: true
-      };
-      socket.emit('chat_message', { gameId: gameState.id, message: systemMessage });
-      window.__sentJoinSystemMessage = gameState.id;
-    }
-  }, [socket, isAuthenticated, gameState?.id, user?.username]);
-
-  // Move sendSystemMessage definition inside GameTable, after useSocket and gameState
-  const sendSystemMessage = (message: string) => {
-    if (!socket || !isAuthenticated) {
-      console.log('Socket not ready for system message:', { connected: socket?.connected, authenticated: isAuthenticated });
-      return;
-    }
-    const systemMessage: ChatMessage = {
-      id: `system-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      userId: 'system',
-      userName: 'System',
-      message,
-      timestamp: Date.now(),
-      isGameMessage: true
-    };
-    console.log('Sending system message:', systemMessage);
-    socket.emit('chat_message', { gameId: gameState.id, message: systemMessage });
-  };
-
   // After: const [gameState, setGameState] = useState(game);
   useEffect(() => {
     console.log('[DEBUG] GameTable received new game prop:', game);
@@ -1114,7 +1412,7 @@ export default function GameTable({
                       <div className="flex items-center gap-2 text-sm mb-2">
                         {/* Game type brick */}
                         {(() => {
-                          const type = gameState.rules?.gameType || 'REGULAR';
+                          const type = getBiddingGameType(gameState);
                           let color = 'bg-green-600';
                           let label = 'REGULAR';
                           if (type === 'WHIZ') {
@@ -1123,7 +1421,7 @@ export default function GameTable({
                           } else if (type === 'MIRROR') {
                             color = 'bg-red-600';
                             label = 'MIRRORS';
-                          } else if (gameState.forcedBid && type === 'REGULAR') {
+                          } else if (gameState.forcedBid && gameState.forcedBid !== 'NONE' && type === 'REGULAR') {
                             color = 'bg-orange-500';
                             if (gameState.forcedBid === 'BID4NIL') label = 'BID 4 OR NIL';
                             else if (gameState.forcedBid === 'BID3') label = 'BID 3';
@@ -1139,6 +1437,9 @@ export default function GameTable({
                         {gameState.rules?.allowNil && <span className="text-slate-300 ml-2">nil <span className="align-middle">☑️</span></span>}
                         {!gameState.rules?.allowNil && <span className="text-slate-300 ml-2">nil <span className="align-middle">❌</span></span>}
                         <span className="text-slate-300 ml-2">bn <span className="align-middle">{gameState.rules?.allowBlindNil ? '☑️' : '❌'}</span></span>
+                        {gameState.rules?.turnTimeLimit && <span className="text-slate-300 ml-2">⏱ {gameState.rules.turnTimeLimit}s</span>}
+                        {gameState.visibility === 'PASSWORD' && <span className="ml-2" title="Password protected">🔒</span>}
+                        {gameState.visibility === 'UNLISTED' && <span className="text-slate-300 ml-2">unlisted</span>}
                       </div>
                       {/* Line 2: Buy-in, game mode, and special bricks */}
                       <div className="flex items-center gap-2 mb-2">
@@ -1175,31 +1476,114 @@ export default function GameTable({
                     </div>
                   )}
                 </div>
+                {/* Special play rules stay visible while playing */}
+                {gameState.specialRules?.screamer && (
+                  <span
+                    className="bg-blue-600 text-white font-bold text-xs px-2 py-1 rounded shadow-lg"
+                    title="Screamer: spades can only be played when you hold no other suit"
+                  >
+                    SCREAMER
+                  </span>
+                )}
+                {gameState.specialRules?.assassin && (
+                  <span
+                    className="bg-red-600 text-white font-bold text-xs px-2 py-1 rounded shadow-lg"
+                    title="Assassin: cut with a spade when you can't follow suit, and lead spades once they are broken"
+                  >
+                    ASSASSIN
+                  </span>
+                )}
+                {/* Who is watching the table */}
+                {!readOnly && gameState.spectators && gameState.spectators.length > 0 && (
+                  <span
+                    className="bg-slate-700 text-slate-200 font-bold text-xs px-2 py-1 rounded shadow-lg"
+                    title={gameState.spectators.map(s => s.username || s.name).join(', ')}
+                  >
+                    👁 {gameState.spectators.length} watching
+                  </span>
+                )}
+                {!readOnly && gameState.inviteCode && gameState.status === 'WAITING' && (
+                  <button
+                    onClick={handleCopyInviteLink}
+                    className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold text-xs px-2 py-1 rounded shadow-lg"
+                    title="Copy a link that seats whoever opens it"
+                  >
+                    {inviteLinkCopied ? 'Link copied!' : '🔗 Invite link'}
+                  </button>
+                )}
+                {!readOnly && gameState.status === 'WAITING' && gameState.creatorId === currentPlayerId && (
+                  <button
+                    onClick={() => {
+                      setArrangingSeats(!arrangingSeats);
+                      setArrangeFromSeat(null);
+                    }}
+                    className="bg-slate-600 hover:bg-slate-500 text-white font-bold text-xs px-2 py-1 rounded shadow-lg"
+                    title="Pick two seats to swap who sits in them"
+                  >
+                    {isArranging ? 'Done arranging' : '⇄ Arrange seats'}
+                  </button>
+                )}
+                {incomingSwaps.map(request => (
+                  <span
+                    key={request.fromUserId}
+                    className="flex items-center gap-1 bg-slate-800 border border-indigo-500 text-slate-200 text-xs px-2 py-1 rounded shadow-lg"
+                  >
+                    {seatName(sanitizedPlayers.find(p => p?.id === request.fromUserId) ?? null) || 'A player'} wants to swap seats
+                    <button
+                      className="px-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded"
+                      onClick={() => handleSwapResponse(request.fromUserId, true)}
+                    >
+                      Accept
+                    </button>
+                    <button
+                      className="px-2 bg-slate-600 hover:bg-slate-500 text-white rounded"
+                      onClick={() => handleSwapResponse(request.fromUserId, false)}
+                    >
+                      Decline
+                    </button>
+                  </span>
+                ))}
               </div>
               
               {/* Scoreboard in top right corner - inside the table */}
               <div className="absolute top-4 right-4 z-10 flex flex-col items-center gap-2 px-3 py-2 bg-gray-800/90 rounded-lg shadow-lg">
-                {/* Team 1 (Red) Score and Bags */}
-                <div className="flex items-center">
-                  <div className="bg-red-500 rounded-full w-2 h-2 mr-1"></div>
-                  <span className="text-white font-bold mr-1 text-sm">{team1Score}</span>
-                  {/* Team 1 Bags */}
-                  <div className="flex items-center text-yellow-300 ml-2" title={`Team 1 Bags: ${team1Bags}`}> 
-                    <img src="/bag.svg" width={16} height={16} alt="Bags" className="mr-1" />
-                    <span className="text-xs font-bold">{team1Bags}</span>
+                {isSoloTable ? (
+                  // Solo: one row per seat
+                  [0, 1, 2, 3].map(seatIndex => (
+                    <div key={`solo-score-${seatIndex}`} className="flex items-center">
+                      <span className="text-slate-300 text-xs mr-2 w-14 truncate">{getSeatName(seatIndex)}</span>
+                      <span className="text-white font-bold mr-1 text-sm">{gameState.playerScores?.[seatIndex] ?? 0}</span>
+                      <div className="flex items-center text-yellow-300 ml-2" title={`Bags: ${gameState.playerBags?.[seatIndex] ?? 0}`}>
+                        <img src="/bag.svg" width={16} height={16} alt="Bags" className="mr-1" />
+                        <span className="text-xs font-bold">{gameState.playerBags?.[seatIndex] ?? 0}</span>
+                      </div>
+                    </div>
+                  ))
+                ) : (
+                  <>
+                  {/* Team 1 (Red) Score and Bags */}
+                  <div className="flex items-center">
+                    <div className="bg-red-500 rounded-full w-2 h-2 mr-1"></div>
+                    <span className="text-white font-bold mr-1 text-sm">{team1Score}</span>
+                    {/* Team 1 Bags */}
+                    <div className="flex items-center text-yellow-300 ml-2" title={`Team 1 Bags: ${team1Bags}`}> 
+                      <img src="/bag.svg" width={16} height={16} alt="Bags" className="mr-1" />
+                      <span className="text-xs font-bold">{team1Bags}</span>
+                    </div>
                   </div>
-                </div>
 
-                {/* Team 2 (Blue) Score and Bags */}
-                <div className="flex items-center">
-                  <div className="bg-blue-500 rounded-full w-2 h-2 mr-1"></div>
-                  <span className="text-white font-bold mr-1 text-sm">{team2Score}</span>
-                  {/* Team 2 Bags */}
-                  <div className="flex items-center text-yellow-300 ml-2" title={`Team 2 Bags: ${team2Bags}`}> 
-                    <img src="/bag.svg" width={16} height={16} alt="Bags" className="mr-1" />
-                    <span className="text-xs font-bold">{team2Bags}</span>
+                  {/* Team 2 (Blue) Score and Bags */}
+                  <div className="flex items-center">
+                    <div className="bg-blue-500 rounded-full w-2 h-2 mr-1"></div>
+                    <span className="text-white font-bold mr-1 text-sm">{team2Score}</span>
+                    {/* Team 2 Bags */}
+                    <div className="flex items-center text-yellow-300 ml-2" title={`Team 2 Bags: ${team2Bags}`}> 
+                      <img src="/bag.svg" width={16} height={16} alt="Bags" className="mr-1" />
+                      <span className="text-xs font-bold">{team2Bags}</span>
+                    </div>
                   </div>
-                </div>
+                  </>
+                )}
               </div>
         
               {/* Players around the table */}
@@ -1214,7 +1598,27 @@ export default function GameTable({
 
               {/* Overlay the game status buttons/messages on top of the play area */}
               <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-                {gameState.status === "WAITING" && sanitizedPlayers.length === 4 && sanitizedPlayers[0]?.id === currentPlayerId ? (
+                {readOnly ? null : gameState.status === "WAITING" && seatedCount < 4 ? (
+                  <div className="px-4 py-2 bg-gray-700 text-gray-300 rounded-lg text-center pointer-events-auto"
+                       style={{ fontSize: `${Math.floor(14 * scaleFactor)}px` }}>
+                    <div className="font-bold">Waiting for Players</div>
+                    <div className="text-sm mt-1">{seatedCount}/4 joined</div>
+                  </div>
+                ) : gameState.status === "WAITING" && !allReady ? (
+                  <div className="px-4 py-2 bg-gray-700 text-gray-300 rounded-lg text-center pointer-events-auto"
+                       style={{ fontSize: `${Math.floor(14 * scaleFactor)}px` }}>
+                    <div className="font-bold">Ready Check</div>
+                    <div className="text-sm mt-1">{readyCount}/{humanSeats.length} ready</div>
+                    {!isObserver && (
+                      <button
+                        onClick={() => handleReady(!amReady)}
+                        className={`mt-2 px-3 py-1 rounded font-bold text-sm ${amReady ? 'bg-slate-500 hover:bg-slate-600 text-white' : 'bg-green-600 hover:bg-green-700 text-white'}`}
+                      >
+                        {amReady ? 'Not ready' : "I'm ready"}
+                      </button>
+                    )}
+                  </div>
+                ) : gameState.status === "WAITING" && gameState.creatorId === currentPlayerId ? (
                   <button
                     onClick={handleStartGame}
                     className="px-4 py-2 bg-yellow-500 hover:bg-yellow-600 text-black font-bold rounded-lg shadow-lg transform hover:scale-105 transition-all pointer-events-auto"
@@ -1222,28 +1626,26 @@ export default function GameTable({
                   >
                     Start Game
                   </button>
-                ) : gameState.status === "WAITING" && sanitizedPlayers.length < 4 ? (
-                  <div className="px-4 py-2 bg-gray-700 text-gray-300 rounded-lg text-center pointer-events-auto"
-                       style={{ fontSize: `${Math.floor(14 * scaleFactor)}px` }}>
-                    <div className="font-bold">Waiting for Players</div>
-                    <div className="text-sm mt-1">{sanitizedPlayers.length}/4 joined</div>
-                  </div>
-                ) : gameState.status === "WAITING" && sanitizedPlayers[0]?.id !== currentPlayerId ? (
+                ) : gameState.status === "WAITING" && gameState.creatorId !== currentPlayerId ? (
                   <div className="px-4 py-2 bg-gray-700 text-gray-300 rounded-lg text-center pointer-events-auto"
                        style={{ fontSize: `${Math.floor(14 * scaleFactor)}px` }}>
                     <div className="font-bold">Waiting for Host</div>
-                    <div className="text-sm mt-1">Only {isPlayer(sanitizedPlayers[0]) ? sanitizedPlayers[0].name : isBot(sanitizedPlayers[0]) ? sanitizedPlayers[0].username : 'Unknown'} can start</div>
+                    <div className="text-sm mt-1">Only {isPlayer(creatorSeat) ? creatorSeat.username || creatorSeat.name : 'the host'} can start</div>
                   </div>
                 ) : gameState.status === "BIDDING" && gameState.currentPlayer === currentPlayerId ? (
                   <div className="flex items-center justify-center w-full h-full pointer-events-auto">
                     <BiddingInterface
                       onBid={handleBid}
                       currentBid={orderedPlayers[0]?.bid}
-                      gameType={gameState.rules.gameType}
+                      gameType={getBiddingGameType(gameState)}
                       numSpades={currentPlayer ? countSpades(currentPlayer.hand) : 0}
                       playerId={currentPlayerId}
                       currentPlayerTurn={gameState.currentPlayer}
                       allowNil={gameState.rules.allowNil}
+                      blindNilOffered={awaitingBlindNil}
+                      onRevealHand={handleRevealHand}
+                      gimmickType={gameState.rules.gimmickType}
+                      forcedBid={currentPlayer ? getForcedBid(gameState, currentPlayer.hand, orderedPlayers[2]?.bid) : null}
                     />
                   </div>
                 ) : gameState.status === "BIDDING" && gameState.currentPlayer !== currentPlayerId ? (
@@ -1277,13 +1679,34 @@ export default function GameTable({
                  style={{ 
                    height: `${Math.floor(110 * scaleFactor)}px`
                  }}>
-              {renderPlayerHand()}
+              {illegalMoveMessage && (
+                <div className="absolute -top-10 left-1/2 -translate-x-1/2 z-40 px-3 py-1 bg-red-600/90 text-white text-sm font-semibold rounded-lg shadow-lg whitespace-nowrap">
+                  {illegalMoveMessage}
+                </div>
+              )}
+              {readOnly ? renderFaceUpHand(orderedPlayers[0]?.hand, true) : spectating ? (
+                renderFaceUpHand(orderedPlayers[0]?.hand, true) ?? (
+                  <div className="flex items-center justify-center h-full text-sm text-gray-300">
+                    You are spectating. The players' hands are hidden.
+                  </div>
+                )
+              ) : myStandIn ? (
+                <div className="flex flex-col items-center justify-center h-full gap-2 text-white">
+                  <span className="text-sm text-gray-300">A bot is playing your seat while you were away.</span>
+                  <button
+                    onClick={handleTakeBackSeat}
+                    className="px-4 py-1 bg-yellow-500 hover:bg-yellow-600 text-black rounded-md text-sm font-semibold"
+                  >
+                    Take Back Seat
+                  </button>
+                </div>
+              ) : renderPlayerHand()}
             </div>
           </div>
 
           {/* Chat area - 30%, full height */}
           <div className="w-[30%] h-full overflow-hidden">
-            {chatReady ? (
+            {readOnly ? sidePanel : chatReady ? (
               <Chat 
                 gameId={gameState.id}
                 userId={currentPlayerId || ''}
@@ -1293,7 +1716,8 @@ export default function GameTable({
                 chatType={chatType}
                 onToggleChatType={() => setChatType(chatType === 'game' ? 'lobby' : 'game')}
                 lobbyMessages={lobbyMessages}
-                spectators={(gameState as any).spectators || []}
+                spectators={gameState.spectators || []}
+                isSpectator={spectating}
               />
             ) : (
               <div className="flex items-center justify-center h-full text-gray-400 text-lg">Connecting chat...</div>
@@ -1308,8 +1732,8 @@ export default function GameTable({
             onClose={() => setShowHandSummary(false)}
             gameState={gameState}
             onNextHand={() => {
+              // The server deals the next hand automatically
               setShowHandSummary(false);
-              // Add any next hand logic here
             }}
             onNewGame={() => {
               setShowHandSummary(false);
@@ -1327,6 +1751,21 @@ export default function GameTable({
             team2Score={gameState.scores.team2}
             winningTeam={1}
             onPlayAgain={handlePlayAgain}
+            onWatchReplay={handleWatchReplay}
+          />
+        )}
+
+        {/* Solo placements */}
+        {showSoloResult && gameState.placements && (
+          <SoloResultModal
+            isOpen={true}
+            onClose={handleLeaveTable}
+            playerNames={[0, 1, 2, 3].map(getSeatName)}
+            playerScores={gameState.playerScores || [0, 0, 0, 0]}
+            placements={gameState.placements}
+            currentSeatIndex={sanitizedPlayers.findIndex(p => p?.id === currentPlayerId)}
+            onPlayAgain={handlePlayAgain}
+            onWatchReplay={handleWatchReplay}
           />
         )}
 
@@ -1339,6 +1778,7 @@ export default function GameTable({
             team2Score={gameState.scores.team2}
             winningTeam={2}
             onPlayAgain={handlePlayAgain}
+            onWatchReplay={handleWatchReplay}
           />
         )}
       </div>
@@ -30,8 +30,11 @@ interface HandSummaryModalProps {
   isOpen: boolean;
   onClose: () => void;
   gameState: GameState;
-  onNextHand: () => void;
-  onNewGame: () => void;
+  onNextHand?: () => void;
+  onNewGame?: () => void;
+  // Replays show the summary of a past hand, with that hand's points, and only a close button
+  readOnly?: boolean;
+  handScore?: { team1: number; team2: number };
 }
 
 export default function HandSummaryModal({
@@ -39,7 +42,9 @@ export default function HandSummaryModal({
   onClose,
   gameState,
   onNextHand,
-  onNewGame
+  onNewGame,
+  readOnly = false,
+  handScore
 }: HandSummaryModalProps) {
   const [showWinnerModal, setShowWinnerModal] = useState(false);
   const [showLoserModal, setShowLoserModal] = useState(false);
@@ -53,12 +58,12 @@ export default function HandSummaryModal({
   // Determine winner using getWinningTeam if needed
 
   useEffect(() => {
-    if (gameIsOver) {
-      onNextHand();
+    if (gameIsOver && !readOnly) {
+      onNextHand?.();
       // Show appropriate modal based on winner
       // You may want to use getWinningTeam(gameState) here
     }
-  }, [gameIsOver, onNextHand]);
+  }, [gameIsOver, readOnly, onNextHand]);
 
     return (
       <>
@@ -97,12 +102,25 @@ export default function HandSummaryModal({
                   <div className="mt-2">
                     <p className="text-sm text-gray-500">
                       Team 1 Score: {team1Score}
+                      {handScore && ` (${handScore.team1 >= 0 ? '+' : ''}${handScore.team1} this hand)`}
                     </p>
                     <p className="text-sm text-gray-500">
                       Team 2 Score: {team2Score}
+                      {handScore && ` (${handScore.team2 >= 0 ? '+' : ''}${handScore.team2} this hand)`}
                     </p>
                   </div>
 
+                  {readOnly ? (
+                  <div className="mt-4">
+                    <button
+                      type="button"
+                      className="inline-flex justify-center rounded-md border border-transparent bg-blue-100 px-4 py-2 text-sm font-medium text-blue-900 hover:bg-blue-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
+                      onClick={onClose}
+                    >
+                      Close
+                    </button>
+                  </div>
+                  ) : (
                   <div className="mt-4">
                     <button
                       type="button"
@@ -119,6 +137,7 @@ export default function HandSummaryModal({
                       New Game
                     </button>
                   </div>
+                  )}
                 </Dialog.Panel>
               </Transition.Child>
             </div>
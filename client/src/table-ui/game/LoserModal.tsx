@@ -8,9 +8,10 @@ interface LoserModalProps {
   team2Score: number;
   winningTeam: number;
   onPlayAgain?: () => void;
+  onWatchReplay?: () => void;
 }
 
-export default function LoserModal({ isOpen, onClose, team1Score, team2Score, winningTeam, onPlayAgain }: LoserModalProps) {
+export default function LoserModal({ isOpen, onClose, team1Score, team2Score, winningTeam, onPlayAgain, onWatchReplay }: LoserModalProps) {
   const [showPlayAgainPrompt, setShowPlayAgainPrompt] = useState(false);
 
   const handlePlayAgain = () => {
@@ -71,6 +72,14 @@ export default function LoserModal({ isOpen, onClose, team1Score, team2Score, wi
             >
               Play Again
             </button>
+            {onWatchReplay && (
+              <button
+                onClick={onWatchReplay}
+                className="w-full px-4 py-1.5 text-sm bg-gradient-to-r from-indigo-600 to-indigo-800 text-white font-medium rounded shadow hover:from-indigo-700 hover:to-indigo-900 transition-all"
+              >
+                Watch Replay
+              </button>
+            )}
             <button
               onClick={handleLeave}
               className="w-full px-4 py-1.5 text-sm bg-gradient-to-r from-gray-600 to-gray-800 text-white font-medium rounded shadow hover:from-gray-700 hover:to-gray-900 transition-all"
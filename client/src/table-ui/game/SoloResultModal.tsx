@@ -0,0 +1,78 @@
+import { FaTrophy } from 'react-icons/fa';
+
+interface SoloResultModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  playerNames: string[];
+  playerScores: number[];
+  placements: number[];
+  currentSeatIndex: number;
+  onPlayAgain?: () => void;
+  onWatchReplay?: () => void;
+}
+
+const PLACE_LABELS = ['1st', '2nd', '3rd', '4th'];
+
+export default function SoloResultModal({
+  isOpen,
+  onClose,
+  playerNames,
+  playerScores,
+  placements,
+  currentSeatIndex,
+  onPlayAgain,
+  onWatchReplay
+}: SoloResultModalProps) {
+  if (!isOpen) return null;
+
+  const winnerName = playerNames[placements[0]] || `Seat ${placements[0] + 1}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-gray-900/75 rounded-lg p-3 max-w-xs w-full shadow-xl border border-gray-700">
+        <div className="flex items-center justify-center gap-2 mb-3">
+          <FaTrophy className="h-6 w-6 text-yellow-500" />
+          <h2 className="text-lg font-bold text-white text-center">{winnerName} Wins!</h2>
+        </div>
+
+        <div className="space-y-1">
+          {placements.map((seatIndex, place) => (
+            <div
+              key={seatIndex}
+              className={`flex justify-between items-center text-xs rounded-lg px-2 py-1 border border-white/5 ${seatIndex === currentSeatIndex ? 'bg-indigo-700/60' : 'bg-gray-800/50'}`}
+            >
+              <span className="text-gray-400 w-8">{PLACE_LABELS[place]}</span>
+              <span className="flex-1 text-white font-medium truncate">{playerNames[seatIndex] || `Seat ${seatIndex + 1}`}</span>
+              <span className="font-medium text-white">{playerScores[seatIndex]}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4 flex flex-col gap-2">
+          {onPlayAgain && (
+            <button
+              onClick={onPlayAgain}
+              className="w-full px-4 py-1.5 text-sm bg-gradient-to-r from-blue-600 to-blue-800 text-white font-medium rounded shadow hover:from-blue-700 hover:to-blue-900 transition-all"
+            >
+              Play Again
+            </button>
+          )}
+          {onWatchReplay && (
+            <button
+              onClick={onWatchReplay}
+              className="w-full px-4 py-1.5 text-sm bg-gradient-to-r from-indigo-600 to-indigo-800 text-white font-medium rounded shadow hover:from-indigo-700 hover:to-indigo-900 transition-all"
+            >
+              Watch Replay
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="w-full px-4 py-1.5 text-sm bg-gradient-to-r from-gray-600 to-gray-800 text-white font-medium rounded shadow hover:from-gray-700 hover:to-gray-900 transition-all"
+          >
+            Leave Table
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
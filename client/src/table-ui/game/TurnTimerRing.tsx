@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react";
+
+interface TurnTimerRingProps {
+  deadline: number; // Epoch ms when the turn runs out
+  limitSeconds: number; // Full length of a turn, for how much of the ring is left
+  size: number; // Diameter of the avatar the ring wraps
+}
+
+// How often the ring redraws
+const TICK_MS = 250;
+
+/**
+ * A countdown drawn around the avatar of the player to act. The ring empties
+ * as the turn runs out and turns red for the last few seconds.
+ */
+export default function TurnTimerRing({ deadline, limitSeconds, size }: TurnTimerRingProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  const remainingMs = Math.max(0, deadline - now);
+  const fraction = Math.min(1, remainingMs / (limitSeconds * 1000));
+  const seconds = Math.ceil(remainingMs / 1000);
+  const ringSize = size + 10;
+  const radius = ringSize / 2 - 2;
+  const circumference = 2 * Math.PI * radius;
+  const color = seconds <= 5 ? "#ef4444" : fraction <= 0.5 ? "#facc15" : "#22c55e";
+
+  return (
+    <>
+      <svg
+        className="absolute pointer-events-none -rotate-90"
+        style={{ top: "50%", left: "50%", marginTop: -ringSize / 2, marginLeft: -ringSize / 2 }}
+        width={ringSize}
+        height={ringSize}
+      >
+        <circle cx={ringSize / 2} cy={ringSize / 2} r={radius} fill="none" stroke="rgba(255,255,255,0.15)" strokeWidth={3} />
+        <circle
+          cx={ringSize / 2}
+          cy={ringSize / 2}
+          r={radius}
+          fill="none"
+          stroke={color}
+          strokeWidth={3}
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - fraction)}
+          style={{ transition: `stroke-dashoffset ${TICK_MS}ms linear` }}
+        />
+      </svg>
+      <div
+        className="absolute -top-1 left-1/2 -translate-x-1/2 px-1 rounded bg-black/70 font-bold z-40"
+        style={{ color, fontSize: size < 40 ? "8px" : "10px" }}
+        title="Time left on this turn"
+      >
+        {seconds}s
+      </div>
+    </>
+  );
+}
@@ -1,127 +1,145 @@
 import type { GameType, Card, Suit, GameState } from '../../types/game';
-// import { Player } from '../../types/game';
+import {
+  areSpadesBroken,
+  DEFAULT_GAME_LIMITS,
+  getBiddingVariant,
+  getGameWinner,
+  getPlayableCards as getEnginePlayableCards,
+  getPlayViolation,
+  isNilBid as isEngineNilBid,
+  mustBidSuicideNil,
+  type BiddingOption,
+  type Card as EngineCard,
+  type PlayViolation,
+  type SpecialRules,
+  type Suit as EngineSuit,
+} from '@engine';
+
+export { BLIND_NIL } from '@engine';
+
+// The table UI uses suit symbols, the rules engine uses suit letters
+const SUIT_TO_ENGINE: Record<Suit, EngineSuit> = { '♠': 'S', '♥': 'H', '♦': 'D', '♣': 'C' };
+
+export function toEngineCard(card: Card): EngineCard {
+  return { suit: SUIT_TO_ENGINE[card.suit] ?? card.suit, rank: card.rank };
+}
+
+function toBiddingOption(gameType: GameType): BiddingOption {
+  return gameType === 'WHIZ' || gameType === 'MIRROR' ? gameType : 'REG';
+}
+
+/**
+ * The bidding style of a table as a GameType, from the bidding option the creator picked
+ */
+export function getBiddingGameType(game: Pick<GameState, 'rules'>): GameType {
+  const bidType = game.rules?.bidType;
+  if (bidType === 'WHIZ' || bidType === 'MIRROR') return bidType;
+  if (bidType) return 'REGULAR';
+  return game.rules?.gameType || 'REGULAR';
+}
 
 /**
  * Determines if a player can bid nil based on the game type and their hand
  */
-export function canBidNil(gameType: GameType, numSpades: number): boolean {
-  switch (gameType) {
-    case 'REGULAR':
-    case 'SOLO':
-      return true; // Regular and Solo games allow nil bids
-    case 'WHIZ':
-      return numSpades === 0; // Only allow nil bid if no spades
-    case 'MIRROR':
-      return false; // Mirror games don't allow nil bids
-    default:
-      return false;
-  }
+export function canBidNil(gameType: GameType, hand: Card[]): boolean {
+  return getBiddingVariant(toBiddingOption(gameType)).canBidNil(hand.map(toEngineCard));
 }
 
 /**
- * Returns the valid bid range for a player based on game type and hand
+ * Returns the valid numeric (non-nil) bid range for a player based on game type and hand
  */
-export function getValidBidRange(gameType: GameType, numSpades: number): { min: number; max: number } {
-  switch (gameType) {
-    case 'REGULAR':
-    case 'SOLO':
-      return { min: 0, max: 13 }; // Full range including nil
-    case 'WHIZ':
-      return { min: numSpades, max: numSpades }; // Must bid number of spades
-    case 'MIRROR':
-      return { min: numSpades, max: numSpades }; // Must bid number of spades
-    default:
-      return { min: 0, max: 13 };
-  }
+export function getValidBidRange(gameType: GameType, hand: Card[]): { min: number; max: number } {
+  return getBiddingVariant(toBiddingOption(gameType)).getBidRange(hand.map(toEngineCard));
 }
 
 /**
  * Validates if a bid is legal for the given game type and player's hand
  */
-export function isValidBid(gameType: GameType, bid: number, numSpades: number): boolean {
-  // const { min, max } = getValidBidRange(gameType, numSpades);
-  
-  switch (gameType) {
-    case 'REGULAR':
-    case 'SOLO':
-      return bid >= 0 && bid <= 13;
-    case 'WHIZ':
-      return bid === numSpades || (bid === 0 && numSpades === 0);
-    case 'MIRROR':
-      return bid === numSpades;
-    default:
-      return false;
-  }
+export function isValidBid(gameType: GameType, bid: number, hand: Card[]): boolean {
+  if (bid === 0 && canBidNil(gameType, hand)) return true;
+  const { min, max } = getValidBidRange(gameType, hand);
+  return bid >= min && bid <= max;
+}
+
+function toBiddingRules(game: Pick<GameState, 'rules'>) {
+  return {
+    bidType: game.rules?.bidType ?? 'REG',
+    gimmickType: game.rules?.gimmickType ?? null,
+    allowNil: game.rules?.allowNil ?? true,
+  };
+}
+
+/**
+ * Whether a bid is a nil contract. Zero bids in Mirror and Bid Hearts are
+ * ordinary contracts for no tricks.
+ */
+export function isNilBid(game: Pick<GameState, 'rules'>, bid: number | undefined): boolean {
+  return isEngineNilBid(toBiddingRules(game), bid);
+}
+
+/**
+ * The only bid the player may make, or null when they have a choice. Mirrors
+ * the server: Mirror, Bid 3 and Bid Hearts are fixed by the hand, and in
+ * Suicide a partner who bid a number leaves the player only nil.
+ */
+export function getForcedBid(game: Pick<GameState, 'rules'>, hand: Card[], partnerBid?: number): number | null {
+  const rules = game.rules;
+  if (!rules?.bidType) return null;
+  if (mustBidSuicideNil(toBiddingRules(game), partnerBid)) return 0;
+  const variant = getBiddingVariant(rules.bidType, rules.gimmickType);
+  const engineHand = hand.map(toEngineCard);
+  if (rules.allowNil && variant.canBidNil(engineHand)) return null;
+  const { min, max } = variant.getBidRange(engineHand);
+  return min === max ? min : null;
+}
+
+/**
+ * Returns the cards from the hand that may be played on the current trick,
+ * following the same follow-suit, spades-broken and special rules the server enforces
+ */
+export function getPlayableCards(
+  hand: Card[],
+  currentTrick: Card[],
+  completedTricks: Card[][],
+  specialRules: SpecialRules = {}
+): Card[] {
+  const leadSuit = currentTrick[0] ? toEngineCard(currentTrick[0]).suit : undefined;
+  const spadesBroken = areSpadesBroken(completedTricks.flat().map(toEngineCard));
+  const playable = getEnginePlayableCards(hand.map(toEngineCard), leadSuit, spadesBroken, specialRules);
+  return hand.filter(card => {
+    const target = toEngineCard(card);
+    return playable.some(c => c.suit === target.suit && c.rank === target.rank);
+  });
 }
 
 /**
- * Calculates the score for a team based on their performance in the hand
+ * Why a card can't be played right now, with the same code and message the
+ * server would reject it with, or null when it is playable
  */
-export function calculateGameTypeScore(
-  gameType: GameType,
-  bid: number,
-  tricks: number,
-  isNilBid: boolean = false,
-  madeNil: boolean = false
-): number {
-  switch (gameType) {
-    case 'REGULAR':
-    case 'SOLO':
-      if (isNilBid) {
-        return madeNil ? 100 : -100;
-      }
-      if (tricks >= bid) {
-        return (bid * 10) + (tricks - bid); // Base points + bags
-      }
-      return -(bid * 10); // Failed contract
-
-    case 'WHIZ':
-      if (bid === 0 && tricks === 0) {
-        return 100; // Made nil
-      }
-      if (bid === 0 && tricks > 0) {
-        return -100; // Failed nil
-      }
-      if (tricks === bid) {
-        return bid * 20; // Double points for exact bid
-      }
-      return -(bid * 10); // Failed contract
-
-    case 'MIRROR':
-      if (tricks === bid) {
-        return bid * 15; // 1.5x points for making exact bid
-      }
-      return -(bid * 10); // Failed contract
-
-    default:
-      return 0;
-  }
+export function getPlayRestriction(
+  card: Card,
+  hand: Card[],
+  currentTrick: Card[],
+  completedTricks: Card[][],
+  specialRules: SpecialRules = {}
+): { code: PlayViolation; message: string } | null {
+  const leadSuit = currentTrick[0] ? toEngineCard(currentTrick[0]).suit : undefined;
+  const spadesBroken = areSpadesBroken(completedTricks.flat().map(toEngineCard));
+  return getPlayViolation(toEngineCard(card), hand.map(toEngineCard), leadSuit, spadesBroken, specialRules);
 }
 
 /**
- * Determines if a card can be played based on the game type and current state
+ * Determines if a card can be played based on the current trick and the hand
  */
 export function isPlayableCard(
   card: Card,
   hand: Card[],
-  leadSuit: Suit | null,
-  isLeadingTrick: boolean
+  currentTrick: Card[],
+  completedTricks: Card[][],
+  specialRules: SpecialRules = {}
 ): boolean {
-  // If leading the trick, any card is playable
-  if (isLeadingTrick) {
-    return true;
-  }
-
-  // Must follow suit if possible
-  if (leadSuit) {
-    const hasSuit = hand.some(c => c.suit === leadSuit);
-    if (hasSuit) {
-      return card.suit === leadSuit;
-    }
-  }
-
-  // If can't follow suit, any card is playable
-  return true;
+  return getPlayableCards(hand, currentTrick, completedTricks, specialRules)
+    .some(c => c.suit === card.suit && c.rank === card.rank);
 }
 
 /**
@@ -136,31 +154,18 @@ export function isHandComplete(game: GameState): boolean {
  * Determines if the game is over based on game type and scores
  */
 export function isGameOver(game: GameState): boolean {
-  const team1Score = game.scores?.team1 || 0;
-  const team2Score = game.scores?.team2 || 0;
-  switch (game.rules.gameType) {
-    case 'REGULAR':
-    case 'SOLO':
-      return team1Score >= 500 || team2Score >= 500 || team1Score <= -250 || team2Score <= -250;
-    case 'WHIZ':
-    case 'MIRROR':
-      return (game.round || 0) >= (game.rules.numHands || 4) || 
-             team1Score >= 500 || team2Score >= 500;
-    default:
-      return false;
-  }
+  return getWinningTeam(game) !== null;
 }
 
 /**
  * Gets the winning team if the game is over
  */
 export function getWinningTeam(game: GameState): 'team1' | 'team2' | null {
-  if (!isGameOver(game)) {
-    return null;
-  }
-  const team1Score = game.scores?.team1 || 0;
-  const team2Score = game.scores?.team2 || 0;
-  if (team1Score <= -250) return 'team2';
-  if (team2Score <= -250) return 'team1';
-  return team1Score > team2Score ? 'team1' : 'team2';
-} 
\ No newline at end of file
+  const winner = getGameWinner(game.scores?.team1 || 0, game.scores?.team2 || 0, {
+    maxPoints: game.maxPoints ?? DEFAULT_GAME_LIMITS.maxPoints,
+    minPoints: game.minPoints ?? DEFAULT_GAME_LIMITS.minPoints,
+    tieBreak: game.rules?.tieBreak ?? DEFAULT_GAME_LIMITS.tieBreak,
+  });
+  if (winner === null) return null;
+  return winner === 1 ? 'team1' : 'team2';
+}
@@ -2,6 +2,9 @@ export type GameType = 'REGULAR' | 'SOLO' | 'WHIZ' | 'MIRROR';
 export type GameMode = 'PARTNERS' | 'SOLO';
 export type BiddingOption = 'REG' | 'WHIZ' | 'MIRROR' | 'GIMMICK';
 export type GamePlayOption = 'REG' | 'WHIZ' | 'MIRROR';
+export type GimmickType = 'SUICIDE' | 'BID4NIL' | 'BID3' | 'BIDHEARTS';
+export type TieBreak = 'PLAY_ANOTHER_HAND' | 'HIGHER_SCORE';
+export type TableVisibility = 'PUBLIC' | 'UNLISTED' | 'PASSWORD';
 
 export type Suit = '♠' | '♥' | '♦' | '♣';
 export type Rank = '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K' | 'A';
@@ -24,19 +27,26 @@ export interface Player {
   tricks?: number;
   avatar?: string;
   username?: string;
+  // Set while the player's connection is down and the server is holding their seat
+  disconnectedAt?: number;
 }
 
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+
 export interface Bot {
   id: string;
   username: string;
   avatar: string;
   type: 'bot';
+  difficulty?: BotDifficulty;
   position: number;
   hand: Card[];
   bid?: number;
   tricks?: number;
   isDealer?: boolean;
   team?: number;
+  // Set when the bot is playing for a player who dropped or went idle
+  standingInFor?: Player;
 }
 
 export interface GameState {
@@ -56,6 +66,15 @@ export interface GameState {
     allowBlindNil: boolean;
     numHands: number;
     coinAmount: number;
+    bidType?: BiddingOption;
+    gimmickType?: GimmickType | null;
+    tieBreak?: TieBreak;
+    // Seconds each player gets to bid or play; no clock when unset
+    turnTimeLimit?: number;
+    // How many may watch; 0 closes the table to spectators
+    maxSpectators?: number;
+    // Spectators see every hand, a little behind the players
+    revealHandsToSpectators?: boolean;
   };
   round: number;
   maxPoints: number;
@@ -64,11 +83,32 @@ export interface GameState {
   cardPlayers?: Record<string, string>;
   team1Bags?: number;
   team2Bags?: number;
+  // Solo mode running totals and finishing order, by seat
+  playerScores?: number[];
+  playerBags?: number[];
+  placements?: number[];
+  bidding?: {
+    // Seats offered blind nil that haven't looked at their cards yet
+    awaitingBlindNil?: boolean[];
+  };
   gameMode?: string;
-  forcedBid?: string;
+  forcedBid?: GimmickType | 'NONE';
   specialRules?: { screamer?: boolean; assassin?: boolean };
   buyIn?: number;
   creatorId: string;
+  spectators?: Player[];
+  // Unlisted tables stay out of the lobby; password tables are listed but locked
+  visibility?: TableVisibility;
+  // Only sent to seated players, for the table's invite link
+  inviteCode?: string;
+  // Players who have confirmed they are ready to start; cleared whenever seats change
+  readyPlayers?: string[];
+  // Open requests from one seated player to trade seats with another
+  swapRequests?: { fromUserId: string; toUserId: string }[];
+  // When the player to act runs out of time (epoch ms), on timed tables
+  turnDeadline?: number;
+  // Turns each seat has let the clock run out on
+  turnStrikes?: number[];
 }
 
 export interface HandSummary {
@@ -80,6 +120,34 @@ export interface HandSummary {
   };
 }
 
+// A finished hand as served by /api/games/:id/replay
+export interface HandReplay {
+  roundNumber: number;
+  dealerIndex: number;
+  bids: number[];
+  hands: Card[][];
+  tricks: { cards: (Card & { playerIndex: number })[]; winnerIndex: number }[];
+  score: {
+    tricksPerPlayer: number[];
+    // Partners
+    team1Score?: number;
+    team2Score?: number;
+    team1TotalScore?: number;
+    team2TotalScore?: number;
+    team1Bags?: number;
+    team2Bags?: number;
+    // Solo
+    playerScores?: number[];
+    playerTotalScores?: number[];
+    playerTotalBags?: number[];
+  };
+}
+
+export interface GameReplay {
+  game: GameState;
+  hands: HandReplay[];
+}
+
 export interface TeamScore {
   team: 1 | 2;
   score: number;
@@ -108,9 +176,18 @@ export interface GameRules {
 export interface GameSettings {
   gameMode: GameMode;
   biddingOption: BiddingOption;
+  gimmickOption?: string;
   gamePlayOption: GamePlayOption;
   minPoints: number;
   maxPoints: number;
+  tieBreak: TieBreak;
+  // Seconds per turn, 0 for no clock
+  turnTimer: number;
+  // Most spectators the table takes, and whether they see the hands (delayed)
+  maxSpectators: number;
+  revealHandsToSpectators: boolean;
+  visibility: TableVisibility;
+  password?: string;
   buyIn: number;
   specialRules: {
     screamer: boolean;
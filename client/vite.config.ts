@@ -12,10 +12,15 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      // Rules engine lives in the server package and is shared with the client
+      '@engine': path.resolve(__dirname, '../server/src/engine'),
     },
   },
   server: {
     port: 5173,
+    fs: {
+      allow: ['.', '../server/src/engine'],
+    },
     proxy: {
       '/api': {
         target: API_URL,
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "GimmickType" AS ENUM ('SUICIDE', 'BID4NIL', 'BID3', 'BIDHEARTS');
+
+-- AlterTable
+ALTER TABLE "Game" ADD COLUMN     "gimmickType" "GimmickType";
+
+-- CreateTable
+CREATE TABLE "UserGameStats" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "gimmickType" "GimmickType" NOT NULL,
+    "gamesPlayed" INTEGER NOT NULL DEFAULT 0,
+    "gamesWon" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UserGameStats_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserGameStats_userId_gimmickType_key" ON "UserGameStats"("userId", "gimmickType");
+
+-- AddForeignKey
+ALTER TABLE "UserGameStats" ADD CONSTRAINT "UserGameStats_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN     "bids" INTEGER[],
+ADD COLUMN     "dealerIndex" INTEGER NOT NULL,
+ADD COLUMN     "hands" JSONB NOT NULL,
+ADD COLUMN     "score" JSONB NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Trick" ADD COLUMN     "trickNumber" INTEGER NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Card" ADD COLUMN     "order" INTEGER NOT NULL;
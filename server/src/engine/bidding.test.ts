@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import type { Card, Game } from '../types/game';
+import { BLIND_NIL, getForcedBid, hasNilBids, isNilBid, validateBid } from './bidding';
+import { hand, makeGame } from './testing';
+
+// Seat 0 to bid, holding `cards`, with the bids already made by the others
+function biddingGame(rules: Partial<Game['rules']>, cards: Card[], bids: (number | null)[] = [null, null, null, null]): Game {
+  return makeGame(rules, {
+    dealerIndex: 3,
+    hands: [cards, [], [], []],
+    bidding: { currentPlayer: 'p0', currentBidderIndex: 0, bids, nilBids: {} },
+  });
+}
+
+// Three spades and two hearts
+const HAND = hand('AS', 'KS', '2S', 'AH', '3H', '4D', '5C');
+
+describe('regular bidding', () => {
+  it('takes any bid from 1 to 13, or nil', () => {
+    const game = biddingGame({ bidType: 'REG' }, HAND);
+    expect(validateBid(game, 0, 1)).toBeNull();
+    expect(validateBid(game, 0, 13)).toBeNull();
+    expect(validateBid(game, 0, 0)).toBeNull();
+    expect(validateBid(game, 0, 14)).toBe('Bid must be between 1 and 13');
+    expect(validateBid(game, 0, 2.5)).toBe('Bid must be a whole number');
+    expect(getForcedBid(game, 0)).toBeNull();
+  });
+
+  it('refuses nil when the table does not allow it', () => {
+    const game = biddingGame({ bidType: 'REG', allowNil: false }, HAND);
+    expect(validateBid(game, 0, 0)).toBe('Nil is not allowed for this hand');
+  });
+});
+
+describe('whiz bidding', () => {
+  it('takes the spade count or nil and nothing else', () => {
+    const game = biddingGame({ bidType: 'WHIZ' }, HAND);
+    expect(validateBid(game, 0, 3)).toBeNull();
+    expect(validateBid(game, 0, 0)).toBeNull();
+    expect(validateBid(game, 0, 4)).toBe('You must bid 3');
+    expect(getForcedBid(game, 0)).toBeNull();
+  });
+
+  it('forces the spade count when nil is off', () => {
+    const game = biddingGame({ bidType: 'WHIZ', allowNil: false }, HAND);
+    expect(validateBid(game, 0, 0)).toBe('Nil is not allowed for this hand');
+    expect(getForcedBid(game, 0)).toBe(3);
+  });
+});
+
+describe('mirror bidding', () => {
+  it('forces the spade count and has no nils', () => {
+    const game = biddingGame({ bidType: 'MIRROR' }, HAND);
+    expect(getForcedBid(game, 0)).toBe(3);
+    expect(validateBid(game, 0, 3)).toBeNull();
+    expect(validateBid(game, 0, 0)).toBe('Nil is not allowed in this game');
+    expect(hasNilBids(game.rules)).toBe(false);
+  });
+
+  it('treats a zero bid without spades as a contract, not a nil', () => {
+    const game = biddingGame({ bidType: 'MIRROR' }, hand('AH', '2D'));
+    expect(validateBid(game, 0, 0)).toBeNull();
+    expect(isNilBid(game.rules, 0)).toBe(false);
+  });
+});
+
+describe('gimmick bidding', () => {
+  it('Suicide: the second partner must nil when the first bid a number', () => {
+    const game = biddingGame({ bidType: 'GIMMICK', gimmickType: 'SUICIDE' }, HAND, [null, 2, 4, null]);
+    expect(getForcedBid(game, 0)).toBe(0);
+    expect(validateBid(game, 0, 0)).toBeNull();
+    expect(validateBid(game, 0, 3)).toBe('Your partner did not bid nil, so you must');
+  });
+
+  it('Suicide: after a partner nil, bids like regular', () => {
+    const game = biddingGame({ bidType: 'GIMMICK', gimmickType: 'SUICIDE' }, HAND, [null, 2, 0, null]);
+    expect(getForcedBid(game, 0)).toBeNull();
+    expect(validateBid(game, 0, 5)).toBeNull();
+  });
+
+  it('Bid 4 or Nil: takes four or nil', () => {
+    const game = biddingGame({ bidType: 'GIMMICK', gimmickType: 'BID4NIL' }, HAND);
+    expect(validateBid(game, 0, 4)).toBeNull();
+    expect(validateBid(game, 0, 0)).toBeNull();
+    expect(validateBid(game, 0, 3)).toBe('You must bid 4');
+  });
+
+  it('Bid 3: forces three', () => {
+    const game = biddingGame({ bidType: 'GIMMICK', gimmickType: 'BID3' }, HAND);
+    expect(getForcedBid(game, 0)).toBe(3);
+    expect(validateBid(game, 0, 0)).toBe('Nil is not allowed for this hand');
+  });
+
+  it('Bid Hearts: forces the heart count, and zero is a contract', () => {
+    const game = biddingGame({ bidType: 'GIMMICK', gimmickType: 'BIDHEARTS' }, HAND);
+    expect(getForcedBid(game, 0)).toBe(2);
+    expect(validateBid(game, 0, 3)).toBe('You must bid 2');
+    expect(isNilBid(game.rules, 0)).toBe(false);
+  });
+});
+
+describe('blind nil', () => {
+  it('is only taken before the cards are seen', () => {
+    const game = biddingGame({ allowBlindNil: true }, HAND);
+    expect(validateBid(game, 0, BLIND_NIL)).toBe('Blind nil must be declared before looking at your cards');
+    game.bidding!.awaitingBlindNil = [true, false, false, false];
+    expect(validateBid(game, 0, BLIND_NIL)).toBeNull();
+    expect(validateBid(game, 0, 3)).toBe('Bid blind nil or look at your cards first');
+    expect(isNilBid(game.rules, BLIND_NIL)).toBe(true);
+  });
+
+  it('is refused where the table does not allow it', () => {
+    const game = biddingGame({ allowBlindNil: false }, HAND);
+    expect(validateBid(game, 0, BLIND_NIL)).toBe('Blind nil is not allowed in this game');
+    const mirror = biddingGame({ allowBlindNil: true, bidType: 'MIRROR' }, HAND);
+    mirror.bidding!.awaitingBlindNil = [true, false, false, false];
+    expect(validateBid(mirror, 0, BLIND_NIL)).toBe('Blind nil is not allowed in this game');
+  });
+});
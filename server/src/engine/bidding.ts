@@ -0,0 +1,162 @@
+import type { BiddingOption, Card, Game, GimmickType } from '../types/game';
+import { countSuit } from './cards';
+
+/** Bid value used for a blind nil (declared before looking at the hand). */
+export const BLIND_NIL = -1;
+
+export interface BiddingVariant {
+  /** Whether the variant lets this hand bid nil at all. */
+  canBidNil(hand: Card[]): boolean;
+  /** Inclusive range of numeric (non-nil) bids available to this hand. */
+  getBidRange(hand: Card[]): { min: number; max: number };
+  /** False when a zero bid is an ordinary contract for no tricks rather than a nil. */
+  zeroIsNil: boolean;
+}
+
+const regular: BiddingVariant = {
+  canBidNil: () => true,
+  getBidRange: () => ({ min: 1, max: 13 }),
+  zeroIsNil: true,
+};
+
+const whiz: BiddingVariant = {
+  // Whiz: bid the number of spades you hold, or nil
+  canBidNil: () => true,
+  getBidRange: hand => {
+    const spades = countSuit(hand, 'S');
+    return { min: spades, max: spades };
+  },
+  zeroIsNil: true,
+};
+
+const mirror: BiddingVariant = {
+  // Mirror: bid exactly the number of spades you hold, no nils
+  canBidNil: () => false,
+  getBidRange: hand => {
+    const spades = countSuit(hand, 'S');
+    return { min: spades, max: spades };
+  },
+  zeroIsNil: false,
+};
+
+export const biddingVariants: Record<BiddingOption, BiddingVariant> = {
+  REG: regular,
+  WHIZ: whiz,
+  MIRROR: mirror,
+  GIMMICK: regular,
+};
+
+// Suicide bids like regular; the one-partner-must-nil rule depends on the partner's bid
+export const gimmickVariants: Record<GimmickType, BiddingVariant> = {
+  SUICIDE: regular,
+  BID4NIL: {
+    canBidNil: () => true,
+    getBidRange: () => ({ min: 4, max: 4 }),
+    zeroIsNil: true,
+  },
+  BID3: {
+    canBidNil: () => false,
+    getBidRange: () => ({ min: 3, max: 3 }),
+    zeroIsNil: true,
+  },
+  BIDHEARTS: {
+    // Bid exactly the number of hearts you hold, no nils
+    canBidNil: () => false,
+    getBidRange: hand => {
+      const hearts = countSuit(hand, 'H');
+      return { min: hearts, max: hearts };
+    },
+    zeroIsNil: false,
+  },
+};
+
+export function getBiddingVariant(
+  bidType: BiddingOption | undefined,
+  gimmickType?: GimmickType | null
+): BiddingVariant {
+  if (bidType === 'GIMMICK' && gimmickType) return gimmickVariants[gimmickType] ?? regular;
+  return biddingVariants[bidType ?? 'REG'] ?? regular;
+}
+
+type BiddingRules = Pick<Game['rules'], 'bidType' | 'gimmickType' | 'allowNil'>;
+
+function getRulesVariant(rules: BiddingRules): BiddingVariant {
+  return getBiddingVariant(rules.bidType, rules.gimmickType);
+}
+
+/** Whether the table's bidding has nils at all; blind nil is only offered where it does. */
+export function hasNilBids(rules: BiddingRules): boolean {
+  // Judged before any cards are seen, like a blind nil itself
+  return rules.allowNil && getRulesVariant(rules).canBidNil([]);
+}
+
+/** Suicide: one partner must nil, so a partner who bid a number leaves the other only nil. */
+export function mustBidSuicideNil(rules: BiddingRules, partnerBid: number | null | undefined): boolean {
+  if (rules.bidType !== 'GIMMICK' || rules.gimmickType !== 'SUICIDE') return false;
+  return partnerBid !== null && partnerBid !== undefined && !isNilBid(rules, partnerBid);
+}
+
+function getPartnerBid(game: Game, seatIndex: number): number | null | undefined {
+  return game.bidding?.bids[(seatIndex + 2) % 4];
+}
+
+/**
+ * Whether a bid is a nil contract. A zero bid in Mirror or Bid Hearts is an
+ * ordinary contract for no tricks, so it earns no nil bonus and its tricks count as bags.
+ */
+export function isNilBid(rules: BiddingRules, bid: number | null | undefined): boolean {
+  if (bid === BLIND_NIL) return true;
+  return bid === 0 && getRulesVariant(rules).zeroIsNil;
+}
+
+/**
+ * The only bid this seat may make, or null when it has a choice. Mirror hands
+ * are forced to their spade count, Bid Hearts to the heart count, Bid 3 to
+ * three, and the second Suicide partner to nil when the first didn't go nil.
+ */
+export function getForcedBid(game: Game, seatIndex: number): number | null {
+  if (game.bidding?.awaitingBlindNil?.[seatIndex]) return null;
+  if (mustBidSuicideNil(game.rules, getPartnerBid(game, seatIndex))) return 0;
+  const hand = game.hands?.[seatIndex] ?? [];
+  const variant = getRulesVariant(game.rules);
+  if (game.rules.allowNil && variant.canBidNil(hand)) return null;
+  const { min, max } = variant.getBidRange(hand);
+  return min === max ? min : null;
+}
+
+/**
+ * Checks a bid against the table rules and the bidder's hand.
+ * Returns a human readable reason when the bid is not allowed, otherwise null.
+ */
+export function validateBid(game: Game, seatIndex: number, bid: number): string | null {
+  if (!Number.isInteger(bid)) {
+    return 'Bid must be a whole number';
+  }
+  const awaitingBlindNil = game.bidding?.awaitingBlindNil?.[seatIndex] ?? false;
+  if (bid === BLIND_NIL) {
+    if (!game.rules.allowBlindNil || !hasNilBids(game.rules)) return 'Blind nil is not allowed in this game';
+    return awaitingBlindNil ? null : 'Blind nil must be declared before looking at your cards';
+  }
+  if (awaitingBlindNil) {
+    return 'Bid blind nil or look at your cards first';
+  }
+
+  if (mustBidSuicideNil(game.rules, getPartnerBid(game, seatIndex))) {
+    return bid === 0 ? null : 'Your partner did not bid nil, so you must';
+  }
+
+  const hand = game.hands?.[seatIndex] ?? [];
+  const variant = getRulesVariant(game.rules);
+  if (bid === 0 && game.rules.allowNil && variant.canBidNil(hand)) {
+    return null;
+  }
+
+  const { min, max } = variant.getBidRange(hand);
+  if (bid >= min && bid <= max) {
+    return null;
+  }
+  if (bid === 0) {
+    return variant.zeroIsNil ? 'Nil is not allowed for this hand' : 'Nil is not allowed in this game';
+  }
+  return min === max ? `You must bid ${min}` : `Bid must be between ${min} and ${max}`;
+}
@@ -0,0 +1,32 @@
+import type { Game } from '../types/game';
+import { hasNilBids } from './bidding';
+import { isSoloGame, TEAM1_SEATS, TEAM2_SEATS } from './scoring';
+
+/** How far behind a player (solo) or team (partners) must be to be offered blind nil. */
+export const BLIND_NIL_DEFICIT = 100;
+
+/**
+ * Whether a seat may bid blind nil this hand. The table must allow it and the
+ * seat must trail by at least BLIND_NIL_DEFICIT: its team behind the other
+ * team in partners, or the player behind the leader in solo.
+ */
+export function isBlindNilEligible(game: Game, seatIndex: number): boolean {
+  if (!game.rules.allowBlindNil || !hasNilBids(game.rules)) return false;
+  if (isSoloGame(game)) {
+    const scores = game.playerScores ?? [0, 0, 0, 0];
+    return Math.max(...scores) - scores[seatIndex] >= BLIND_NIL_DEFICIT;
+  }
+  const team1 = game.team1TotalScore || 0;
+  const team2 = game.team2TotalScore || 0;
+  if (TEAM1_SEATS.includes(seatIndex)) return team2 - team1 >= BLIND_NIL_DEFICIT;
+  if (TEAM2_SEATS.includes(seatIndex)) return team1 - team2 >= BLIND_NIL_DEFICIT;
+  return false;
+}
+
+/**
+ * Seats whose cards stay hidden at the start of a hand while they decide on
+ * blind nil. Bots never go blind.
+ */
+export function getBlindNilSeats(game: Game): boolean[] {
+  return [0, 1, 2, 3].map(i => game.players[i]?.type === 'human' && isBlindNilEligible(game, i));
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { Game } from '../types/game';
+import { buildCardMemory, chooseBotBid, getBotAction, getTimeoutAction } from './bot';
+import { createDeck } from './cards';
+import { applyAction } from './reducer';
+import { card, hand, makeGame } from './testing';
+
+// Dealt round the table one card at a time, so every seat holds a mix of suits
+function dealtGame(rules: Partial<Game['rules']> = {}): Game {
+  const deck = createDeck();
+  return makeGame(rules, {
+    dealerIndex: 3,
+    hands: [0, 1, 2, 3].map(seat => deck.filter((_, i) => i % 4 === seat)),
+    bidding: { currentPlayer: 'p0', currentBidderIndex: 0, bids: [null, null, null, null], nilBids: {} },
+  });
+}
+
+describe('chooseBotBid', () => {
+  it('bids the forced contract in Mirror', () => {
+    const game = makeGame({ bidType: 'MIRROR' }, {
+      hands: [hand('AS', 'KS', '2S', 'AH', '3H'), [], [], []],
+      bidding: { currentPlayer: 'p0', currentBidderIndex: 0, bids: [null, null, null, null], nilBids: {} },
+    });
+    expect(chooseBotBid(game, 0)).toBe(3);
+  });
+
+  it('does not go nil alongside a partner who already has', () => {
+    const weak = hand('2H', '3H', '4D', '5D', '2C', '3C', '4C');
+    const game = makeGame({}, {
+      hands: [[], [], weak, []],
+      bidding: { currentPlayer: 'p2', currentBidderIndex: 2, bids: [0, 3, null, null], nilBids: {} },
+    });
+    expect(chooseBotBid(game, 2)).toBeGreaterThan(0);
+    expect(chooseBotBid({ ...game, bidding: { ...game.bidding!, bids: [4, 3, null, null] } }, 2)).toBe(0);
+  });
+
+  it('never goes nil on easy, and misjudges the hand by up to a trick', () => {
+    const game = makeGame({}, {
+      hands: [hand('2H', '3H', '4D', '5D', '2C', '3C', '4C'), [], [], []],
+      bidding: { currentPlayer: 'p0', currentBidderIndex: 0, bids: [null, null, null, null], nilBids: {} },
+    });
+    expect(chooseBotBid(game, 0, 'medium')).toBe(0);
+    expect(chooseBotBid(game, 0, 'easy', () => 0.99)).toBe(1);
+  });
+});
+
+describe('buildCardMemory', () => {
+  it('remembers played cards and the suits each seat has shown out of', () => {
+    const game = makeGame({}, {
+      status: 'PLAYING',
+      play: {
+        currentPlayer: 'p0',
+        currentPlayerIndex: 0,
+        currentTrick: [{ ...card('2D'), playerIndex: 0 }, { ...card('2S'), playerIndex: 1 }],
+        tricks: [],
+        trickNumber: 0,
+      },
+    });
+    const memory = buildCardMemory(game);
+    expect(memory.played).toHaveLength(2);
+    expect([...memory.voids[1]]).toEqual(['D']);
+    expect(memory.voids[0].size).toBe(0);
+  });
+});
+
+describe('getBotAction', () => {
+  it.each(['easy', 'medium', 'hard'] as const)('%s bots bid and play a whole hand without a rejected action', difficulty => {
+    let game = dealtGame();
+    game = { ...game, players: game.players.map(p => p && { ...p, type: 'bot' as const, difficulty }) };
+    let events: string[] = [];
+    for (let turn = 0; turn < 4 + 52; turn++) {
+      const seatIndex = game.status === 'BIDDING' ? game.bidding!.currentBidderIndex : game.play!.currentPlayerIndex;
+      const action = getBotAction(game, seatIndex);
+      expect(action).not.toBeNull();
+      const result = applyAction(game, action!);
+      if (!result.ok) throw new Error(`${action!.type} rejected: ${result.error}`);
+      game = result.game;
+      events = result.events.map(e => e.type);
+    }
+    expect(events).toContain('hand_completed');
+  });
+
+  it("does nothing on another seat's turn", () => {
+    expect(getBotAction(dealtGame(), 1)).toBeNull();
+  });
+
+  it('looks at the cards first on a seat still offered blind nil', () => {
+    const game = dealtGame({ allowBlindNil: true });
+    game.bidding!.awaitingBlindNil = [true, false, false, false];
+    expect(getBotAction(game, 0)).toEqual({ type: 'REVEAL_HAND', seatIndex: 0 });
+    const revealed = applyAction(game, { type: 'REVEAL_HAND', seatIndex: 0 });
+    if (!revealed.ok) throw new Error(revealed.error);
+    const action = getBotAction(revealed.game, 0);
+    expect(action?.type).toBe('MAKE_BID');
+    expect(applyAction(revealed.game, action!).ok).toBe(true);
+  });
+});
+
+describe('getTimeoutAction', () => {
+  it('looks at the cards first, then makes the forced or lowest bid', () => {
+    const game = dealtGame({ allowBlindNil: true });
+    game.bidding!.awaitingBlindNil = [true, false, false, false];
+    expect(getTimeoutAction(game, 0)).toEqual({ type: 'REVEAL_HAND', seatIndex: 0 });
+    expect(getTimeoutAction(dealtGame(), 0)).toEqual({ type: 'MAKE_BID', seatIndex: 0, bid: 1 });
+    const mirror = { ...dealtGame({ bidType: 'MIRROR' }), hands: [hand('AS', 'KS', '2S', 'AH'), [], [], []] };
+    expect(getTimeoutAction(mirror, 0)).toEqual({ type: 'MAKE_BID', seatIndex: 0, bid: 3 });
+  });
+
+  it('plays the lowest legal card', () => {
+    const game = makeGame({}, {
+      status: 'PLAYING',
+      hands: [hand('AS', 'KH', '4H', '2D'), [], [], []],
+      play: { currentPlayer: 'p0', currentPlayerIndex: 0, currentTrick: [], leadSuit: 'H', tricks: [], trickNumber: 0 },
+    });
+    expect(getTimeoutAction(game, 0)).toEqual({ type: 'PLAY_CARD', seatIndex: 0, card: card('4H') });
+  });
+});
@@ -0,0 +1,344 @@
+import type { BotDifficulty, Card, Game, Suit } from '../types/game';
+import { getBiddingVariant, getForcedBid, isNilBid } from './bidding';
+import { countSuit, getCardValue, RANKS } from './cards';
+import { areSpadesBroken, getPlayableCards } from './play';
+import { isSoloGame } from './scoring';
+import type { GameAction } from './reducer';
+
+const SIDE_SUITS: Suit[] = ['H', 'D', 'C'];
+
+function partnerOf(seatIndex: number): number {
+  return (seatIndex + 2) % 4;
+}
+
+// Everyone else at the table is an opponent in solo
+function opponentsOf(game: Game, seatIndex: number): number[] {
+  const seats = [(seatIndex + 1) % 4, (seatIndex + 3) % 4];
+  return isSoloGame(game) ? [...seats, partnerOf(seatIndex)] : seats;
+}
+
+function hasCard(hand: Card[], suit: Suit, rank: Card['rank']): boolean {
+  return hand.some(c => c.suit === suit && c.rank === rank);
+}
+
+// Lowest first; spades rank above every other suit so they are spent last
+function byStrength(a: Card, b: Card): number {
+  const trumpA = a.suit === 'S' ? 100 : 0;
+  const trumpB = b.suit === 'S' ? 100 : 0;
+  return trumpA + getCardValue(a.rank) - (trumpB + getCardValue(b.rank));
+}
+
+function lowest(cards: Card[]): Card {
+  return [...cards].sort(byStrength)[0];
+}
+
+function highest(cards: Card[]): Card {
+  return [...cards].sort(byStrength)[cards.length - 1];
+}
+
+function beats(card: Card, winning: Card): boolean {
+  if (card.suit === winning.suit) return getCardValue(card.rank) > getCardValue(winning.rank);
+  return card.suit === 'S';
+}
+
+function getWinningCard(trick: Card[]): Card {
+  return trick.reduce((winning, card) => (beats(card, winning) ? card : winning));
+}
+
+/**
+ * Rough number of tricks a hand should take: high spades and long spades,
+ * side-suit aces and protected kings, plus ruffs from short suits when there
+ * are spades to spare.
+ */
+export function estimateTricks(hand: Card[]): number {
+  const spades = countSuit(hand, 'S');
+  let tricks = 0;
+
+  // Spades: honours that are protected by length, then every spade past the fourth
+  if (hasCard(hand, 'S', 'A')) tricks += 1;
+  if (hasCard(hand, 'S', 'K') && spades >= 2) tricks += 1;
+  if (hasCard(hand, 'S', 'Q') && spades >= 3) tricks += 1;
+  if (spades > 4) tricks += spades - 4;
+  const honours = tricks;
+
+  for (const suit of SIDE_SUITS) {
+    const length = countSuit(hand, suit);
+    if (hasCard(hand, suit, 'A')) tricks += length <= 6 ? 1 : 0.5;
+    if (hasCard(hand, suit, 'K') && length >= 2) tricks += length <= 5 ? 0.75 : 0.25;
+    if (hasCard(hand, suit, 'Q') && length >= 3 && length <= 4) tricks += 0.25;
+  }
+
+  // Short side suits let spared spades ruff
+  let spareSpades = Math.max(spades - honours, 0);
+  for (const suit of SIDE_SUITS) {
+    const length = countSuit(hand, suit);
+    const ruffs = Math.min(length === 0 ? 2 : length === 1 ? 1 : 0, spareSpades);
+    tricks += ruffs;
+    spareSpades -= ruffs;
+  }
+
+  return tricks;
+}
+
+/** A hand is a nil candidate when it holds no sure winners and only low spades. */
+export function isNilCandidate(hand: Card[]): boolean {
+  const spades = hand.filter(c => c.suit === 'S');
+  if (spades.length > 3) return false;
+  if (spades.some(c => getCardValue(c.rank) >= 11)) return false;
+  for (const suit of SIDE_SUITS) {
+    const cards = hand.filter(c => c.suit === suit);
+    if (hasCard(hand, suit, 'A')) return false;
+    if (hasCard(hand, suit, 'K') && cards.length < 4) return false;
+  }
+  return estimateTricks(hand) < 1.5;
+}
+
+/**
+ * Picks a bid for a bot seat within the table's bidding rules.
+ * Easy bots never go nil and misjudge their hand by up to a trick either way.
+ */
+export function chooseBotBid(
+  game: Game,
+  seatIndex: number,
+  difficulty: BotDifficulty = 'medium',
+  random: () => number = Math.random
+): number {
+  const forcedBid = getForcedBid(game, seatIndex);
+  if (forcedBid !== null) return forcedBid;
+  const hand = game.hands?.[seatIndex] ?? [];
+  const bids = game.bidding?.bids ?? [];
+  const variant = getBiddingVariant(game.rules.bidType, game.rules.gimmickType);
+  const { min, max } = variant.getBidRange(hand);
+
+  const partnerBid = bids[partnerOf(seatIndex)];
+  const canNil = game.rules.allowNil && variant.canBidNil(hand);
+  // Never double up on nil with a partner who already went nil
+  const partnerNil = !isSoloGame(game) && isNilBid(game.rules, partnerBid);
+  if (difficulty !== 'easy' && canNil && !partnerNil && isNilCandidate(hand)) return 0;
+
+  let bid = Math.round(estimateTricks(hand));
+  if (difficulty === 'easy') bid += Math.floor(random() * 3) - 1;
+  // Keep the table total at or under 13 so the bot doesn't chase impossible contracts
+  const tableTotal = bids.reduce<number>((sum, b) => sum + Math.max(b ?? 0, 0), 0);
+  bid = Math.min(bid, 13 - tableTotal);
+  bid = Math.max(min, Math.min(max, bid));
+  if (bid === 0 && !canNil) bid = Math.max(min, 1);
+  return bid;
+}
+
+function getTeamNeeds(game: Game, seatIndex: number): { bid: number; tricks: number } {
+  const seats = isSoloGame(game) ? [seatIndex] : [seatIndex, partnerOf(seatIndex)];
+  let bid = 0;
+  let tricks = 0;
+  for (const seat of seats) {
+    const seatBid = game.bidding?.bids[seat];
+    if (!isNilBid(game.rules, seatBid)) bid += seatBid ?? 0;
+    tricks += game.players[seat]?.tricks ?? 0;
+  }
+  return { bid, tricks };
+}
+
+// Highest card that still loses to the current winner; if every card wins, shed the biggest
+function duck(playable: Card[], winning: Card | undefined): Card {
+  if (!winning) return lowest(playable);
+  const losers = playable.filter(c => !beats(c, winning));
+  return losers.length > 0 ? highest(losers) : highest(playable);
+}
+
+// Cheapest card that takes the lead from the current winner, or the lowest card if none can
+function takeCheaply(playable: Card[], winning: Card | undefined): Card {
+  if (!winning) return highest(playable);
+  const winners = playable.filter(c => beats(c, winning));
+  return winners.length > 0 ? lowest(winners) : discard(playable);
+}
+
+// Throw away the least useful card, keeping spades for later
+function discard(playable: Card[]): Card {
+  const nonSpades = playable.filter(c => c.suit !== 'S');
+  return lowest(nonSpades.length > 0 ? nonSpades : playable);
+}
+
+function chooseLead(playable: Card[], hand: Card[], wantTricks: boolean): Card {
+  if (!wantTricks) return lowest(playable);
+  // Cash side-suit aces first, then lead low from the longest side suit
+  const aces = playable.filter(c => c.suit !== 'S' && c.rank === 'A');
+  if (aces.length > 0) return aces[0];
+  const sideSuits = SIDE_SUITS.filter(suit => playable.some(c => c.suit === suit));
+  if (sideSuits.length === 0) return highest(playable);
+  const longest = sideSuits.reduce((best, suit) => (countSuit(hand, suit) > countSuit(hand, best) ? suit : best));
+  return lowest(playable.filter(c => c.suit === longest));
+}
+
+/** What a hard bot remembers about the hand so far. */
+export interface CardMemory {
+  played: Card[];
+  /** Suits each seat has shown out of by failing to follow. */
+  voids: Set<Suit>[];
+}
+
+export function buildCardMemory(game: Game): CardMemory {
+  const tricks = [...(game.play?.tricks.map(t => t.cards) ?? []), game.play?.currentTrick ?? []];
+  const voids = [0, 1, 2, 3].map(() => new Set<Suit>());
+  for (const cards of tricks) {
+    const leadSuit = cards[0]?.suit;
+    for (const card of cards) {
+      if (card.suit !== leadSuit && card.playerIndex !== undefined) voids[card.playerIndex].add(leadSuit);
+    }
+  }
+  return { played: tricks.flat(), voids };
+}
+
+// A card is boss when every higher card of its suit is already played or in our own hand
+function isBoss(card: Card, hand: Card[], memory: CardMemory): boolean {
+  return RANKS
+    .filter(rank => getCardValue(rank) > getCardValue(card.rank))
+    .every(rank => hasCard(memory.played, card.suit, rank) || hasCard(hand, card.suit, rank));
+}
+
+/**
+ * Extra play for hard bots: set opponent nils, cash boss cards and lead into
+ * partner's voids. Returns null to fall back to the basic strategy.
+ */
+function chooseHardCard(game: Game, seatIndex: number, playable: Card[], wantTricks: boolean): Card | null {
+  const hand = game.hands?.[seatIndex] ?? [];
+  const trick = game.play!.currentTrick;
+  const winning = trick.length > 0 ? getWinningCard(trick) : undefined;
+  const memory = buildCardMemory(game);
+  const partnerSeat = partnerOf(seatIndex);
+  const opponents = opponentsOf(game, seatIndex);
+  const solo = isSoloGame(game);
+
+  // Set an opponent's nil: keep cards under theirs so they are forced to win a trick
+  const nilOpponent = opponents.find(seat =>
+    isNilBid(game.rules, game.bidding?.bids[seat]) && (game.players[seat]?.tricks ?? 0) === 0
+  );
+  if (nilOpponent !== undefined) {
+    if (trick.length === 0) {
+      const target = playable.filter(c => !memory.voids[nilOpponent].has(c.suit));
+      return lowest(target.length > 0 ? target : playable);
+    }
+    const nilPlayed = trick.some(c => c.playerIndex === nilOpponent);
+    if (!nilPlayed) return lowest(playable);
+    if (winning?.playerIndex === nilOpponent) return duck(playable, winning);
+  }
+
+  if (!wantTricks) return null;
+
+  if (trick.length === 0) {
+    // Cash boss cards in suits the opponents can't ruff
+    const safeBosses = playable.filter(c =>
+      isBoss(c, hand, memory) && (c.suit === 'S' || opponents.every(seat => !memory.voids[seat].has(c.suit)))
+    );
+    if (safeBosses.length > 0) return highest(safeBosses);
+    // Otherwise lead low into a suit partner can ruff
+    const partnerRuffs = solo ? [] : playable.filter(c =>
+      c.suit !== 'S' && memory.voids[partnerSeat].has(c.suit) && !memory.voids[partnerSeat].has('S')
+    );
+    if (partnerRuffs.length > 0) return lowest(partnerRuffs);
+    return null;
+  }
+
+  // Partner already holds the trick with a card nobody left can beat
+  if (!solo && winning?.playerIndex === partnerSeat) {
+    const nextOpponentRuffs = winning.suit !== 'S' && memory.voids[(seatIndex + 1) % 4].has(winning.suit);
+    if (trick.length === 3 || (isBoss(winning, hand, memory) && !nextOpponentRuffs)) return discard(playable);
+  }
+  return null;
+}
+
+/**
+ * Picks a legal card for a bot seat. Easy bots play any legal card, medium bots
+ * use basic partnership strategy and hard bots also count cards.
+ */
+export function chooseBotCard(
+  game: Game,
+  seatIndex: number,
+  difficulty: BotDifficulty = 'medium',
+  random: () => number = Math.random
+): Card {
+  const hand = game.hands?.[seatIndex] ?? [];
+  const play = game.play!;
+  const spadesBroken = areSpadesBroken(play.tricks.flatMap(t => t.cards));
+  const playable = getPlayableCards(hand, play.leadSuit, spadesBroken, game.specialRules);
+  const trick = play.currentTrick;
+  const winning = trick.length > 0 ? getWinningCard(trick) : undefined;
+  if (difficulty === 'easy') return playable[Math.floor(random() * playable.length)];
+
+  const myBid = game.bidding?.bids[seatIndex];
+  const solo = isSoloGame(game);
+  const partnerSeat = partnerOf(seatIndex);
+  const partnerBid = solo ? null : game.bidding?.bids[partnerSeat];
+  const team = getTeamNeeds(game, seatIndex);
+
+  // Going nil: stay under everything
+  if (isNilBid(game.rules, myBid)) {
+    return trick.length === 0 ? lowest(playable) : duck(playable, winning);
+  }
+
+  // Partner is nil: cover them by winning the trick whenever they could still take it
+  if (isNilBid(game.rules, partnerBid) && (game.players[partnerSeat]?.tricks ?? 0) === 0) {
+    if (trick.length === 0) return highest(playable);
+    const partnerPlayed = trick.find(c => c.playerIndex === partnerSeat);
+    if (!partnerPlayed || winning?.playerIndex === partnerSeat) {
+      const winners = winning ? playable.filter(c => beats(c, winning)) : playable;
+      if (winners.length > 0) return highest(winners);
+    }
+    return discard(playable);
+  }
+
+  // Contract made: avoid bags
+  const wantTricks = team.tricks < team.bid;
+  if (difficulty === 'hard') {
+    const card = chooseHardCard(game, seatIndex, playable, wantTricks);
+    if (card) return card;
+  }
+  if (trick.length === 0) return chooseLead(playable, hand, wantTricks);
+  if (!wantTricks) return duck(playable, winning);
+
+  // Let partner keep a trick they are already winning with a strong card or as the last to play
+  if (!solo && winning?.playerIndex === partnerSeat) {
+    const lastToPlay = trick.length === 3;
+    const strong = winning.suit === 'S' || getCardValue(winning.rank) >= 12;
+    if (lastToPlay || strong) return discard(playable);
+  }
+  return takeCheaply(playable, winning);
+}
+
+/** Decides the next action for a bot whose turn it is, or null when it has nothing to do. */
+export function getBotAction(game: Game, seatIndex: number): GameAction | null {
+  const difficulty = game.players[seatIndex]?.difficulty ?? 'medium';
+  if (game.status === 'BIDDING' && game.bidding?.currentBidderIndex === seatIndex) {
+    // A bot taking over a seat still offered blind nil looks at the cards before bidding
+    if (game.bidding.awaitingBlindNil?.[seatIndex]) return { type: 'REVEAL_HAND', seatIndex };
+    return { type: 'MAKE_BID', seatIndex, bid: chooseBotBid(game, seatIndex, difficulty) };
+  }
+  if (
+    game.status === 'PLAYING' &&
+    game.play?.currentPlayerIndex === seatIndex &&
+    (game.hands?.[seatIndex]?.length ?? 0) > 0
+  ) {
+    return { type: 'PLAY_CARD', seatIndex, card: chooseBotCard(game, seatIndex, difficulty) };
+  }
+  return null;
+}
+
+/**
+ * The move made for a player whose turn clock runs out: look at the cards when
+ * still offered blind nil, then the forced or lowest allowed bid, or the
+ * lowest legal card.
+ */
+export function getTimeoutAction(game: Game, seatIndex: number): GameAction | null {
+  if (game.status === 'BIDDING' && game.bidding?.currentBidderIndex === seatIndex) {
+    if (game.bidding.awaitingBlindNil?.[seatIndex]) return { type: 'REVEAL_HAND', seatIndex };
+    const hand = game.hands?.[seatIndex] ?? [];
+    const { min } = getBiddingVariant(game.rules.bidType, game.rules.gimmickType).getBidRange(hand);
+    return { type: 'MAKE_BID', seatIndex, bid: getForcedBid(game, seatIndex) ?? min };
+  }
+  const hand = game.hands?.[seatIndex] ?? [];
+  if (game.status === 'PLAYING' && game.play?.currentPlayerIndex === seatIndex && hand.length > 0) {
+    const spadesBroken = areSpadesBroken(game.play.tricks.flatMap(t => t.cards));
+    const playable = getPlayableCards(hand, game.play.leadSuit, spadesBroken, game.specialRules);
+    return { type: 'PLAY_CARD', seatIndex, card: lowest(playable) };
+  }
+  return null;
+}
@@ -0,0 +1,51 @@
+import type { Card, Rank, Suit } from '../types/game';
+
+export const SUITS: Suit[] = ['S', 'H', 'D', 'C'];
+export const RANKS: Rank[] = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
+
+const RANK_VALUES: Record<Rank, number> = {
+  '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8, '9': 9, '10': 10,
+  'J': 11, 'Q': 12, 'K': 13, 'A': 14
+};
+
+export function createDeck(): Card[] {
+  const deck: Card[] = [];
+  for (const suit of SUITS) {
+    for (const rank of RANKS) {
+      deck.push({ suit, rank });
+    }
+  }
+  return deck;
+}
+
+export function getCardValue(rank: Rank): number {
+  return RANK_VALUES[rank];
+}
+
+export function isSameCard(a: Card, b: Card): boolean {
+  return a.suit === b.suit && a.rank === b.rank;
+}
+
+export function countSuit(hand: Card[], suit: Suit): number {
+  return hand.filter(card => card.suit === suit).length;
+}
+
+/**
+ * Returns the seat index of the player who won the trick.
+ * Spades trump every other suit; otherwise the highest card of the lead suit wins.
+ */
+export function determineTrickWinner(trick: Card[]): number {
+  if (!trick.length) {
+    throw new Error('Cannot determine winner of empty trick');
+  }
+  let winningCard = trick[0];
+  for (const card of trick) {
+    if (
+      (card.suit === 'S' && winningCard.suit !== 'S') ||
+      (card.suit === winningCard.suit && getCardValue(card.rank) > getCardValue(winningCard.rank))
+    ) {
+      winningCard = card;
+    }
+  }
+  return winningCard.playerIndex ?? 0;
+}
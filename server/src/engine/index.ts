@@ -0,0 +1,21 @@
+// Pure spades rules engine shared by the server and the client.
+// Nothing in here may import Express, Socket.IO, Prisma or React.
+export * from './cards';
+export * from './bidding';
+export * from './blindNil';
+export * from './play';
+export * from './scoring';
+export * from './reducer';
+export * from './bot';
+export type {
+  BiddingOption,
+  BotDifficulty,
+  Card,
+  Game,
+  GimmickType,
+  Rank,
+  SpecialRules,
+  Suit,
+  TieBreak,
+  Trick,
+} from '../types/game';
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import type { Card } from '../types/game';
+import { determineTrickWinner } from './cards';
+import { areSpadesBroken, getPlayableCards, getPlayViolation } from './play';
+import { card, hand } from './testing';
+
+const codes = (cards: Card[]) => cards.map(c => `${c.rank}${c.suit}`);
+
+describe('following suit', () => {
+  it('must follow the lead suit when the hand can', () => {
+    const cards = hand('AH', '2H', 'KS', '3D');
+    expect(codes(getPlayableCards(cards, 'H', false))).toEqual(['AH', '2H']);
+    expect(getPlayViolation(card('3D'), cards, 'H', false)?.code).toBe('MUST_FOLLOW_SUIT');
+    expect(getPlayViolation(card('AH'), cards, 'H', false)).toBeNull();
+  });
+
+  it('may play anything, spades included, when void in the lead suit', () => {
+    const cards = hand('KS', '3D');
+    expect(codes(getPlayableCards(cards, 'H', false))).toEqual(['KS', '3D']);
+  });
+});
+
+describe('spades broken', () => {
+  it('counts as broken once any spade is played', () => {
+    expect(areSpadesBroken(hand('2H', '3D'))).toBe(false);
+    expect(areSpadesBroken(hand('2H', '3S'))).toBe(true);
+  });
+
+  it('keeps spades from being led until broken', () => {
+    const cards = hand('AS', '2H');
+    expect(codes(getPlayableCards(cards, undefined, false))).toEqual(['2H']);
+    expect(getPlayViolation(card('AS'), cards, undefined, false)?.code).toBe('SPADES_NOT_BROKEN');
+    expect(codes(getPlayableCards(cards, undefined, true))).toEqual(['AS', '2H']);
+  });
+
+  it('lets a hand of nothing but spades lead one', () => {
+    expect(codes(getPlayableCards(hand('AS', '2S'), undefined, false))).toEqual(['AS', '2S']);
+  });
+});
+
+describe('Screamer', () => {
+  const screamer = { screamer: true };
+
+  it('keeps spades back while the hand holds another suit', () => {
+    const cards = hand('KS', '3D');
+    expect(codes(getPlayableCards(cards, 'H', true, screamer))).toEqual(['3D']);
+    expect(codes(getPlayableCards(cards, undefined, true, screamer))).toEqual(['3D']);
+    expect(getPlayViolation(card('KS'), cards, 'H', true, screamer)?.code).toBe('SCREAMER_NO_SPADES');
+  });
+
+  it('still follows a spade lead', () => {
+    expect(codes(getPlayableCards(hand('KS', '3D'), 'S', true, screamer))).toEqual(['KS']);
+  });
+});
+
+describe('Assassin', () => {
+  const assassin = { assassin: true };
+
+  it('must cut with a spade when void in the lead suit', () => {
+    const cards = hand('KS', '3D');
+    expect(codes(getPlayableCards(cards, 'H', false, assassin))).toEqual(['KS']);
+    expect(getPlayViolation(card('3D'), cards, 'H', false, assassin)?.code).toBe('ASSASSIN_MUST_CUT');
+  });
+
+  it('must lead spades once they are broken', () => {
+    const cards = hand('KS', '3D');
+    expect(codes(getPlayableCards(cards, undefined, true, assassin))).toEqual(['KS']);
+    expect(getPlayViolation(card('3D'), cards, undefined, true, assassin)?.code).toBe('ASSASSIN_MUST_LEAD_SPADES');
+  });
+});
+
+describe('trick winner', () => {
+  const played = (...entries: [string, number][]) => entries.map(([code, playerIndex]) => ({ ...card(code), playerIndex }));
+
+  it('goes to the highest card of the lead suit', () => {
+    expect(determineTrickWinner(played(['10H', 1], ['KH', 2], ['AD', 3], ['2H', 0]))).toBe(2);
+  });
+
+  it('goes to the highest spade when spades are played', () => {
+    expect(determineTrickWinner(played(['AH', 1], ['2S', 2], ['5S', 3], ['KH', 0]))).toBe(3);
+  });
+});
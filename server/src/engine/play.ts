@@ -0,0 +1,78 @@
+import type { Card, SpecialRules, Suit } from '../types/game';
+
+/** Reasons a card may not be played, sent to the client with `illegal_move`. */
+export type PlayViolation =
+  | 'MUST_FOLLOW_SUIT'
+  | 'SPADES_NOT_BROKEN'
+  | 'SCREAMER_NO_SPADES'
+  | 'ASSASSIN_MUST_CUT'
+  | 'ASSASSIN_MUST_LEAD_SPADES';
+
+/** Spades are broken once any spade has been played this hand. */
+export function areSpadesBroken(playedCards: Card[]): boolean {
+  return playedCards.some(card => card.suit === 'S');
+}
+
+function withoutSpades(hand: Card[]): Card[] {
+  const nonSpades = hand.filter(card => card.suit !== 'S');
+  return nonSpades.length > 0 ? nonSpades : hand;
+}
+
+function onlySpades(hand: Card[]): Card[] {
+  const spades = hand.filter(card => card.suit === 'S');
+  return spades.length > 0 ? spades : hand;
+}
+
+/**
+ * Cards from the hand that may be played on the current trick.
+ * Followers must follow the lead suit when they can. The leader may not lead
+ * spades until they are broken, unless the hand holds nothing but spades.
+ * Under Screamer a spade is only playable when it is the lead suit or the hand
+ * holds nothing else. Under Assassin a player who can't follow must cut with a
+ * spade, and once spades are broken the leader must lead one.
+ */
+export function getPlayableCards(
+  hand: Card[],
+  leadSuit: Suit | undefined,
+  spadesBroken: boolean,
+  specialRules: SpecialRules = {}
+): Card[] {
+  if (!leadSuit) {
+    if (specialRules.assassin && spadesBroken) return onlySpades(hand);
+    return spadesBroken && !specialRules.screamer ? hand : withoutSpades(hand);
+  }
+  const suitCards = hand.filter(card => card.suit === leadSuit);
+  if (suitCards.length > 0) return suitCards;
+  if (specialRules.assassin) return onlySpades(hand);
+  return specialRules.screamer ? withoutSpades(hand) : hand;
+}
+
+/**
+ * Explains why a card from the hand cannot be played, or returns null when it can.
+ */
+export function getPlayViolation(
+  card: Card,
+  hand: Card[],
+  leadSuit: Suit | undefined,
+  spadesBroken: boolean,
+  specialRules: SpecialRules = {}
+): { code: PlayViolation; message: string } | null {
+  const playable = getPlayableCards(hand, leadSuit, spadesBroken, specialRules);
+  if (playable.some(c => c.suit === card.suit && c.rank === card.rank)) return null;
+  const canFollow = leadSuit !== undefined && hand.some(c => c.suit === leadSuit);
+  if (specialRules.assassin && card.suit !== 'S' && !canFollow) {
+    if (leadSuit) {
+      return { code: 'ASSASSIN_MUST_CUT', message: 'Assassin: you must cut with a spade when you cannot follow suit' };
+    }
+    if (spadesBroken) {
+      return { code: 'ASSASSIN_MUST_LEAD_SPADES', message: 'Assassin: you must lead spades once they are broken' };
+    }
+  }
+  if (specialRules.screamer && card.suit === 'S' && !canFollow) {
+    return { code: 'SCREAMER_NO_SPADES', message: 'Screamer: you cannot play spades while you hold another suit' };
+  }
+  if (!leadSuit) {
+    return { code: 'SPADES_NOT_BROKEN', message: 'You cannot lead spades until they are broken' };
+  }
+  return { code: 'MUST_FOLLOW_SUIT', message: `You must follow suit (${leadSuit})` };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import type { Card, Game, Suit } from '../types/game';
+import { RANKS } from './cards';
+import { applyAction, type ActionResult, type GameAction } from './reducer';
+import { makeGame } from './testing';
+
+const suitHand = (suit: Suit): Card[] => [...RANKS].reverse().map(rank => ({ suit, rank }));
+
+// Dealer in seat 3, so seat 0 bids and leads first; each seat holds one whole suit
+function dealtGame(rules: Partial<Game['rules']> = {}): Game {
+  return makeGame(rules, {
+    dealerIndex: 3,
+    hands: [suitHand('S'), suitHand('H'), suitHand('D'), suitHand('C')],
+    bidding: { currentPlayer: 'p0', currentBidderIndex: 0, bids: [null, null, null, null], nilBids: {} },
+  });
+}
+
+// Applies the actions in order, failing the test on the first rejection
+function run(game: Game, actions: GameAction[]): Extract<ActionResult, { ok: true }> {
+  let result: ActionResult = { ok: true, game, events: [] };
+  for (const action of actions) {
+    result = applyAction(result.game, action);
+    if (!result.ok) throw new Error(`${action.type} rejected: ${result.error}`);
+  }
+  return result;
+}
+
+const bids = (...values: number[]): GameAction[] => values.map((bid, seatIndex) => ({ type: 'MAKE_BID', seatIndex, bid }));
+
+describe('applyAction: bidding', () => {
+  it('moves the turn on and never mutates the input', () => {
+    const game = dealtGame();
+    const result = run(game, bids(4));
+    expect(result.game.bidding?.currentBidderIndex).toBe(1);
+    expect(result.game.bidding?.bids).toEqual([4, null, null, null]);
+    expect(result.events.map(e => e.type)).toEqual(['bidding_update']);
+    expect(game.bidding?.bids).toEqual([null, null, null, null]);
+  });
+
+  it('rejects bids out of turn and bids the rules do not allow', () => {
+    const game = dealtGame({ bidType: 'MIRROR' });
+    expect(applyAction(game, { type: 'MAKE_BID', seatIndex: 1, bid: 0 })).toMatchObject({ ok: false, code: 'NOT_YOUR_TURN' });
+    expect(applyAction(game, { type: 'MAKE_BID', seatIndex: 0, bid: 4 })).toMatchObject({ ok: false, code: 'INVALID_BID', error: 'You must bid 13' });
+  });
+
+  it('starts play with the seat after the dealer once all four have bid', () => {
+    const result = run(dealtGame(), bids(10, 1, 2, 1));
+    expect(result.game.status).toBe('PLAYING');
+    expect(result.game.play?.currentPlayerIndex).toBe(0);
+    expect(result.events.map(e => e.type)).toEqual(['bidding_complete', 'play_start']);
+  });
+
+  it('lets a seat offered blind nil look at its cards before bidding', () => {
+    const game = dealtGame({ allowBlindNil: true });
+    game.bidding!.awaitingBlindNil = [true, false, false, false];
+    expect(applyAction(game, { type: 'MAKE_BID', seatIndex: 0, bid: 4 })).toMatchObject({ ok: false, code: 'INVALID_BID' });
+    const result = run(game, [{ type: 'REVEAL_HAND', seatIndex: 0 }, ...bids(4)]);
+    expect(result.game.bidding?.bids[0]).toBe(4);
+  });
+});
+
+// Bids 10, 1, 2, 1 and plays all thirteen tricks; seat 0's spades win every one
+function playHand(game: Game): Extract<ActionResult, { ok: true }> {
+  let result = run(game, bids(10, 1, 2, 1));
+  for (let trick = 0; trick < 13; trick++) {
+    result = run(result.game, [0, 1, 2, 3].map(seatIndex => ({
+      type: 'PLAY_CARD' as const,
+      seatIndex,
+      card: result.game.hands![seatIndex][0],
+    })));
+  }
+  return result;
+}
+
+describe('applyAction: play', () => {
+  it('rejects cards out of turn or not in the hand, with the reason', () => {
+    const game = run(dealtGame(), bids(10, 1, 2, 1)).game;
+    const led = run(game, [{ type: 'PLAY_CARD', seatIndex: 0, card: { suit: 'S', rank: 'A' } }]).game;
+    expect(applyAction(led, { type: 'PLAY_CARD', seatIndex: 1, card: { suit: 'S', rank: 'K' } }))
+      .toMatchObject({ ok: false, code: 'CARD_NOT_IN_HAND' });
+    expect(applyAction(led, { type: 'PLAY_CARD', seatIndex: 2, card: { suit: 'D', rank: 'A' } }))
+      .toMatchObject({ ok: false, code: 'NOT_YOUR_TURN' });
+  });
+
+  it('plays out a hand, scores it and hands the lead to each trick winner', () => {
+    const result = playHand(dealtGame());
+    for (let trick = 0; trick < 13; trick++) {
+      expect(result.game.play?.tricks[trick].winnerIndex).toBe(0);
+    }
+    expect(result.events.map(e => e.type)).toEqual(['trick_complete', 'hand_completed']);
+    expect(result.game.team1TotalScore).toBe(121);
+    expect(result.game.team2TotalScore).toBe(-20);
+    expect(result.game.team1Bags).toBe(1);
+    expect(result.game.status).toBe('PLAYING');
+  });
+
+  it("ends the game on the table's own point limit", () => {
+    const result = playHand(dealtGame({ maxPoints: 100 }));
+    expect(result.events.map(e => e.type)).toEqual(['trick_complete', 'hand_completed', 'game_over']);
+    expect(result.game.status).toBe('COMPLETED');
+    expect(result.game.winningTeam).toBe('team1');
+  });
+});
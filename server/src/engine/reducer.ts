@@ -0,0 +1,316 @@
+import type { Card, Game, Trick } from '../types/game';
+import { isNilBid, validateBid } from './bidding';
+import { determineTrickWinner, isSameCard } from './cards';
+import { areSpadesBroken, getPlayViolation, type PlayViolation } from './play';
+import {
+  applyBagPenalty,
+  calculatePartnersHandScore,
+  calculateSoloHandScore,
+  getGameLimits,
+  getGameWinner,
+  getSoloGameResult,
+  isSoloGame,
+  isSoloTieBreakSituation,
+  isTieBreakSituation,
+  type PartnersHandSummary,
+  type SoloHandSummary,
+} from './scoring';
+
+// --- Actions ---
+export type GameAction =
+  | { type: 'MAKE_BID'; seatIndex: number; bid: number }
+  | { type: 'PLAY_CARD'; seatIndex: number; card: Card }
+  | { type: 'REVEAL_HAND'; seatIndex: number };
+
+// --- Events (names match the Socket.IO events broadcast to the table) ---
+export interface GameEventPayloads {
+  bidding_update: { currentBidderIndex: number; bids: (number | null)[] };
+  bidding_complete: { bids: (number | null)[] };
+  hand_revealed: { seatIndex: number };
+  play_start: { currentPlayerIndex: number; currentTrick: Card[]; trickNumber: number };
+  play_update: {
+    currentPlayerIndex: number;
+    currentTrick: Card[];
+    hands: { playerId?: string; handCount: number }[];
+  };
+  trick_complete: { trick: Trick; trickNumber: number };
+  hand_completed:
+    | PartnersHandSummary & {
+      team1TotalScore: number;
+      team2TotalScore: number;
+      team1Bags: number;
+      team2Bags: number;
+    }
+    | SoloHandSummary & {
+      playerTotalScores: number[];
+      playerTotalBags: number[];
+    };
+  game_over:
+    | { team1Score: number; team2Score: number; winningTeam: 1 | 2 }
+    | { playerScores: number[]; placements: number[] };
+}
+
+export type GameEvent = {
+  [K in keyof GameEventPayloads]: { type: K; payload: GameEventPayloads[K] };
+}[keyof GameEventPayloads];
+
+/**
+ * Why an action was rejected. Everything except INVALID_STATE is a rules
+ * violation by the acting player.
+ */
+export type ActionErrorCode =
+  | 'INVALID_STATE'
+  | 'NOT_YOUR_TURN'
+  | 'ALREADY_BID'
+  | 'INVALID_BID'
+  | 'CARD_NOT_IN_HAND'
+  | PlayViolation;
+
+export type ActionResult =
+  | { ok: true; game: Game; events: GameEvent[] }
+  | { ok: false; code: ActionErrorCode; error: string };
+
+function fail(code: ActionErrorCode, error: string): ActionResult {
+  return { ok: false, code, error };
+}
+
+function event<K extends keyof GameEventPayloads>(type: K, payload: GameEventPayloads[K]): GameEvent {
+  return { type, payload } as GameEvent;
+}
+
+// Copy every part of the game the reducers write to, so the input is never mutated
+function cloneGame(game: Game): Game {
+  return {
+    ...game,
+    players: game.players.map(p => (p ? { ...p } : null)),
+    completedTricks: [...game.completedTricks],
+    hands: game.hands?.map(hand => [...hand]),
+    bidding: game.bidding && {
+      ...game.bidding,
+      bids: [...game.bidding.bids],
+      nilBids: { ...game.bidding.nilBids },
+      awaitingBlindNil: game.bidding.awaitingBlindNil && [...game.bidding.awaitingBlindNil],
+    },
+    play: game.play && {
+      ...game.play,
+      currentTrick: [...game.play.currentTrick],
+      tricks: [...game.play.tricks],
+    },
+  };
+}
+
+function applyBid(game: Game, seatIndex: number, bid: number): ActionResult {
+  if (game.status !== 'BIDDING' || !game.bidding) {
+    return fail('INVALID_STATE', 'Game is not in the bidding phase');
+  }
+  if (seatIndex !== game.bidding.currentBidderIndex) return fail('NOT_YOUR_TURN', 'Not your turn');
+  if (game.bidding.bids[seatIndex] !== null) return fail('ALREADY_BID', 'You have already bid');
+
+  const invalidReason = validateBid(game, seatIndex, bid);
+  if (invalidReason) return fail('INVALID_BID', invalidReason);
+
+  const next = cloneGame(game);
+  const bidding = next.bidding!;
+  const player = next.players[seatIndex];
+  bidding.bids[seatIndex] = bid;
+  // A blind nil is declared, so the bidder now gets to see their cards
+  if (bidding.awaitingBlindNil) bidding.awaitingBlindNil[seatIndex] = false;
+  if (player) {
+    player.bid = bid;
+    if (isNilBid(next.rules, bid)) bidding.nilBids[player.id] = true;
+  }
+
+  if (bidding.bids.every(b => b !== null)) {
+    // All bids in, move to play phase
+    if (next.dealerIndex === undefined) return fail('INVALID_STATE', 'Invalid game state: no dealer assigned');
+    const leaderIndex = (next.dealerIndex + 1) % 4;
+    const leader = next.players[leaderIndex];
+    if (!leader) return fail('INVALID_STATE', 'Invalid game state');
+
+    next.status = 'PLAYING';
+    next.play = {
+      currentPlayer: leader.id,
+      currentPlayerIndex: leaderIndex,
+      currentTrick: [],
+      tricks: [],
+      trickNumber: 0,
+    };
+    return {
+      ok: true,
+      game: next,
+      events: [
+        event('bidding_complete', { bids: bidding.bids }),
+        event('play_start', {
+          currentPlayerIndex: leaderIndex,
+          currentTrick: [],
+          trickNumber: 0,
+        }),
+      ],
+    };
+  }
+
+  // Find next player who hasn't bid
+  let nextBidder = (seatIndex + 1) % 4;
+  while (bidding.bids[nextBidder] !== null) {
+    nextBidder = (nextBidder + 1) % 4;
+  }
+  bidding.currentBidderIndex = nextBidder;
+  bidding.currentPlayer = next.players[nextBidder]?.id ?? '';
+  return {
+    ok: true,
+    game: next,
+    events: [event('bidding_update', { currentBidderIndex: nextBidder, bids: bidding.bids })],
+  };
+}
+
+// The seat passes on blind nil and looks at their cards
+function applyRevealHand(game: Game, seatIndex: number): ActionResult {
+  if (game.status !== 'BIDDING' || !game.bidding) {
+    return fail('INVALID_STATE', 'Game is not in the bidding phase');
+  }
+  if (!game.bidding.awaitingBlindNil?.[seatIndex]) return fail('INVALID_STATE', 'Your cards are already revealed');
+
+  const next = cloneGame(game);
+  next.bidding!.awaitingBlindNil![seatIndex] = false;
+  return { ok: true, game: next, events: [event('hand_revealed', { seatIndex })] };
+}
+
+function applyPlayCard(game: Game, seatIndex: number, card: Card): ActionResult {
+  if (game.status !== 'PLAYING' || !game.play || !game.hands || !game.bidding) {
+    return fail('INVALID_STATE', 'Invalid game state');
+  }
+  if (seatIndex !== game.play.currentPlayerIndex) return fail('NOT_YOUR_TURN', 'Not your turn');
+  const currentHand = game.hands[seatIndex];
+  if (!currentHand) return fail('INVALID_STATE', 'Invalid hand state');
+  const cardIndex = currentHand.findIndex(c => isSameCard(c, card));
+  if (cardIndex === -1) return fail('CARD_NOT_IN_HAND', 'Card not in hand');
+
+  const spadesBroken = areSpadesBroken(game.play.tricks.flatMap(t => t.cards));
+  const violation = getPlayViolation(card, currentHand, game.play.leadSuit, spadesBroken, game.specialRules);
+  if (violation) return fail(violation.code, violation.message);
+
+  const next = cloneGame(game);
+  const play = next.play!;
+  const hand = next.hands![seatIndex];
+  const [playedCard] = hand.splice(cardIndex, 1);
+  if (play.currentTrick.length === 0) play.leadSuit = playedCard.suit;
+  play.currentTrick.push({ suit: playedCard.suit, rank: playedCard.rank, playerIndex: seatIndex });
+
+  const events: GameEvent[] = [];
+  if (play.currentTrick.length === 4) {
+    const winnerIndex = determineTrickWinner(play.currentTrick);
+    const trick: Trick = { cards: play.currentTrick, winnerIndex };
+    play.tricks.push(trick);
+    next.completedTricks.push(trick.cards);
+    play.currentTrick = [];
+    play.leadSuit = undefined;
+    play.trickNumber += 1;
+    // The winner of the trick leads the next one
+    play.currentPlayerIndex = winnerIndex;
+    const winner = next.players[winnerIndex];
+    if (winner) winner.tricks = (winner.tricks ?? 0) + 1;
+    events.push(event('trick_complete', { trick, trickNumber: play.trickNumber }));
+
+    if (play.trickNumber === 13) {
+      events.push(...scoreHand(next));
+      return { ok: true, game: next, events };
+    }
+  } else {
+    play.currentPlayerIndex = (play.currentPlayerIndex + 1) % 4;
+  }
+  play.currentPlayer = next.players[play.currentPlayerIndex]?.id ?? '';
+
+  events.push(event('play_update', {
+    currentPlayerIndex: play.currentPlayerIndex,
+    currentTrick: play.currentTrick,
+    hands: next.hands!.map((h, i) => ({
+      playerId: next.players[i]?.id,
+      handCount: h.length,
+    })),
+  }));
+  return { ok: true, game: next, events };
+}
+
+// Adds the finished hand to the running totals and ends the game when a threshold is crossed
+function scoreHand(game: Game): GameEvent[] {
+  if (isSoloGame(game)) return scoreSoloHand(game);
+  const handSummary = calculatePartnersHandScore(game);
+  const limits = getGameLimits(game);
+  // Both teams were already past a limit before this hand, so this was the tie-break hand
+  const isTieBreakHand = isTieBreakSituation(game.team1TotalScore || 0, game.team2TotalScore || 0, limits);
+  game.team1TotalScore = (game.team1TotalScore || 0) + handSummary.team1Score;
+  game.team2TotalScore = (game.team2TotalScore || 0) + handSummary.team2Score;
+  game.team1Bags = (game.team1Bags || 0) + handSummary.team1Bags;
+  game.team2Bags = (game.team2Bags || 0) + handSummary.team2Bags;
+
+  const events: GameEvent[] = [
+    event('hand_completed', {
+      ...handSummary,
+      team1TotalScore: game.team1TotalScore,
+      team2TotalScore: game.team2TotalScore,
+      team1Bags: game.team1Bags,
+      team2Bags: game.team2Bags,
+    }),
+  ];
+
+  const winningTeam = getGameWinner(game.team1TotalScore, game.team2TotalScore, limits, isTieBreakHand);
+  if (winningTeam) {
+    game.status = 'COMPLETED';
+    game.winningTeam = winningTeam === 1 ? 'team1' : 'team2';
+    events.push(event('game_over', {
+      team1Score: game.team1TotalScore,
+      team2Score: game.team2TotalScore,
+      winningTeam,
+    }));
+  }
+  return events;
+}
+
+function scoreSoloHand(game: Game): GameEvent[] {
+  const handSummary = calculateSoloHandScore(game);
+  const limits = getGameLimits(game);
+  const previousScores = game.playerScores ?? [0, 0, 0, 0];
+  const isTieBreakHand = isSoloTieBreakSituation(previousScores, limits);
+  const playerScores = [...previousScores];
+  const playerBags = [...(game.playerBags ?? [0, 0, 0, 0])];
+  for (let i = 0; i < 4; i++) {
+    const { bags, penalty } = applyBagPenalty(playerBags[i] + handSummary.playerBags[i]);
+    playerBags[i] = bags;
+    playerScores[i] += handSummary.playerScores[i] + penalty;
+  }
+  game.playerScores = playerScores;
+  game.playerBags = playerBags;
+
+  const events: GameEvent[] = [
+    event('hand_completed', {
+      ...handSummary,
+      playerTotalScores: playerScores,
+      playerTotalBags: playerBags,
+    }),
+  ];
+
+  const placements = getSoloGameResult(playerScores, limits, isTieBreakHand);
+  if (placements) {
+    game.status = 'COMPLETED';
+    game.placements = placements;
+    events.push(event('game_over', { playerScores, placements }));
+  }
+  return events;
+}
+
+/**
+ * Applies a player action to the game and returns the resulting game plus the
+ * events to broadcast. Never mutates the input; illegal actions return an error.
+ */
+export function applyAction(game: Game, action: GameAction): ActionResult {
+  switch (action.type) {
+    case 'MAKE_BID':
+      return applyBid(game, action.seatIndex, action.bid);
+    case 'PLAY_CARD':
+      return applyPlayCard(game, action.seatIndex, action.card);
+    case 'REVEAL_HAND':
+      return applyRevealHand(game, action.seatIndex);
+    default:
+      return fail('INVALID_STATE', 'Unknown action');
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { Game } from '../types/game';
+import { BLIND_NIL } from './bidding';
+import {
+  applyBagPenalty,
+  calculatePartnersHandScore,
+  calculateSoloHandScore,
+  DEFAULT_GAME_LIMITS,
+  getGameWinner,
+  getSoloGameResult,
+  getSoloPlacements,
+  isTieBreakSituation,
+  type GameLimits,
+} from './scoring';
+import { makeGame } from './testing';
+
+// A finished hand where each seat bid bids[i] and took tricksWon[i] tricks
+function playedHand(bids: number[], tricksWon: number[], rules: Partial<Game['rules']> = {}): Game {
+  const tricks = tricksWon.flatMap((count, seat) => Array.from({ length: count }, () => ({ cards: [], winnerIndex: seat })));
+  return makeGame(rules, {
+    status: 'PLAYING',
+    bidding: { currentPlayer: '', currentBidderIndex: 0, bids, nilBids: {} },
+    play: { currentPlayer: '', currentPlayerIndex: 0, currentTrick: [], tricks, trickNumber: 13 },
+  });
+}
+
+describe('partners hand scoring', () => {
+  it('scores ten a trick bid plus one a bag, and loses the bid when set', () => {
+    const summary = calculatePartnersHandScore(playedHand([3, 3, 4, 4], [4, 2, 4, 3]));
+    expect(summary).toMatchObject({ team1Score: 71, team1Bags: 1, team2Score: -70, team2Bags: 0 });
+    expect(summary.tricksPerPlayer).toEqual([4, 2, 4, 3]);
+  });
+
+  it('adds 100 for a made nil and 200 for a made blind nil', () => {
+    expect(calculatePartnersHandScore(playedHand([0, 4, 5, 4], [0, 4, 5, 4])).team1Score).toBe(150);
+    expect(calculatePartnersHandScore(playedHand([BLIND_NIL, 4, 5, 4], [0, 4, 5, 4])).team1Score).toBe(250);
+  });
+
+  it('takes 100 for a failed nil and counts its tricks as bags', () => {
+    const summary = calculatePartnersHandScore(playedHand([0, 3, 5, 4], [2, 3, 5, 3]));
+    expect(summary).toMatchObject({ team1Score: -48, team1Bags: 4, team2Score: -70 });
+  });
+
+  it('takes 100 and ten bags once a team reaches ten bags in a hand', () => {
+    const summary = calculatePartnersHandScore(playedHand([1, 1, 1, 1], [6, 0, 6, 1]));
+    expect(summary).toMatchObject({ team1Score: -70, team1Bags: 0, team2Score: -20 });
+  });
+
+  it('scores a Mirror zero as part of the contract, not as a nil', () => {
+    const summary = calculatePartnersHandScore(playedHand([0, 3, 4, 3], [1, 3, 4, 5], { bidType: 'MIRROR' }));
+    expect(summary).toMatchObject({ team1Score: 41, team1Bags: 1 });
+  });
+});
+
+describe('bags', () => {
+  it('carries the bags past ten after the penalty', () => {
+    expect(applyBagPenalty(12)).toEqual({ bags: 2, penalty: -100 });
+    expect(applyBagPenalty(9)).toEqual({ bags: 9, penalty: 0 });
+  });
+});
+
+describe('solo hand scoring', () => {
+  it('scores each seat on its own contract', () => {
+    const summary = calculateSoloHandScore(playedHand([3, 0, 4, 2], [4, 0, 3, 6], { gameType: 'SOLO' }));
+    expect(summary.playerScores).toEqual([31, 100, -40, 24]);
+    expect(summary.playerBags).toEqual([1, 0, 0, 4]);
+  });
+});
+
+describe('game end and the tie-break setting', () => {
+  const higherScore: GameLimits = { ...DEFAULT_GAME_LIMITS, tieBreak: 'HIGHER_SCORE' };
+  const anotherHand: GameLimits = { ...DEFAULT_GAME_LIMITS, tieBreak: 'PLAY_ANOTHER_HAND' };
+
+  it('plays on until a team reaches maxPoints or the other falls to minPoints', () => {
+    expect(getGameWinner(490, 300, higherScore)).toBeNull();
+    expect(getGameWinner(500, 300, higherScore)).toBe(1);
+    expect(getGameWinner(-150, 100, higherScore)).toBe(2);
+  });
+
+  it('HIGHER_SCORE ends the game right away when both teams cross', () => {
+    expect(isTieBreakSituation(510, 520, higherScore)).toBe(true);
+    expect(getGameWinner(510, 520, higherScore)).toBe(2);
+  });
+
+  it('PLAY_ANOTHER_HAND plays one more hand before deciding', () => {
+    expect(getGameWinner(510, 520, anotherHand)).toBeNull();
+    expect(getGameWinner(560, 520, anotherHand, true)).toBe(1);
+  });
+
+  it('always plays on from equal totals', () => {
+    expect(getGameWinner(520, 520, higherScore)).toBeNull();
+    expect(getGameWinner(520, 520, anotherHand, true)).toBeNull();
+  });
+});
+
+describe('solo placements', () => {
+  it('orders seats by score, earlier seats first on ties', () => {
+    expect(getSoloPlacements([10, 50, 50, -20])).toEqual([1, 2, 0, 3]);
+  });
+
+  it('ends the game once a player reaches maxPoints or falls to minPoints', () => {
+    expect(getSoloGameResult([400, 200, 100, 0])).toBeNull();
+    expect(getSoloGameResult([510, 200, 100, 0])).toEqual([0, 1, 2, 3]);
+    expect(getSoloGameResult([100, -160, 50, 0])).toEqual([0, 2, 3, 1]);
+  });
+
+  it('plays on from a tie for first', () => {
+    expect(getSoloGameResult([510, 510, 100, 0])).toBeNull();
+  });
+
+  it('applies the tie-break when several players cross at once', () => {
+    const anotherHand: GameLimits = { ...DEFAULT_GAME_LIMITS, tieBreak: 'PLAY_ANOTHER_HAND' };
+    expect(getSoloGameResult([520, 510, 100, 0], anotherHand)).toBeNull();
+    expect(getSoloGameResult([520, 510, 100, 0], anotherHand, true)).toEqual([0, 1, 2, 3]);
+    expect(getSoloGameResult([520, 510, 100, 0])).toEqual([0, 1, 2, 3]);
+  });
+});
@@ -0,0 +1,224 @@
+import type { Game, TieBreak } from '../types/game';
+import { BLIND_NIL, isNilBid } from './bidding';
+
+export interface PartnersHandSummary {
+  team1Score: number;
+  team2Score: number;
+  team1Bags: number;
+  team2Bags: number;
+  tricksPerPlayer: number[];
+}
+
+export const TEAM1_SEATS = [0, 2];
+export const TEAM2_SEATS = [1, 3];
+
+export function calculatePartnersHandScore(game: Game): PartnersHandSummary {
+  if (!game.bidding || !game.play) {
+    throw new Error('Invalid game state for scoring');
+  }
+  const team1 = TEAM1_SEATS;
+  const team2 = TEAM2_SEATS;
+  let team1Bid = 0, team2Bid = 0, team1Tricks = 0, team2Tricks = 0;
+  let team1Bags = 0, team2Bags = 0;
+  let team1Score = 0, team2Score = 0;
+  // Count tricks per player
+  const tricksPerPlayer = [0, 0, 0, 0];
+  for (const trick of game.play.tricks) {
+    tricksPerPlayer[trick.winnerIndex]++;
+  }
+  // Calculate team bids and tricks (nil bids add nothing to the contract)
+  for (const i of team1) {
+    team1Bid += Math.max(game.bidding.bids[i] ?? 0, 0);
+    team1Tricks += tricksPerPlayer[i];
+  }
+  for (const i of team2) {
+    team2Bid += Math.max(game.bidding.bids[i] ?? 0, 0);
+    team2Tricks += tricksPerPlayer[i];
+  }
+  // Team 1 scoring
+  if (team1Tricks >= team1Bid) {
+    team1Score += team1Bid * 10;
+    team1Bags = team1Tricks - team1Bid;
+    team1Score += team1Bags;
+  } else {
+    team1Score -= team1Bid * 10;
+    team1Bags = 0;
+  }
+  // Team 2 scoring
+  if (team2Tricks >= team2Bid) {
+    team2Score += team2Bid * 10;
+    team2Bags = team2Tricks - team2Bid;
+    team2Score += team2Bags;
+  } else {
+    team2Score -= team2Bid * 10;
+    team2Bags = 0;
+  }
+  // Nil and Blind Nil (a Mirror zero is not a nil, it was scored with the contract above)
+  for (const i of [...team1, ...team2]) {
+    const bid = game.bidding.bids[i];
+    const tricks = tricksPerPlayer[i];
+    const nilValue = !isNilBid(game.rules, bid) ? 0 : bid === BLIND_NIL ? 200 : 100;
+    if (!nilValue) continue;
+    if (tricks === 0) {
+      if (team1.includes(i)) team1Score += nilValue;
+      else team2Score += nilValue;
+    } else {
+      // A failed nil costs the nil value and its tricks go to the team as bags
+      if (team1.includes(i)) {
+        team1Score -= nilValue;
+        team1Bags += tricks;
+      } else {
+        team2Score -= nilValue;
+        team2Bags += tricks;
+      }
+    }
+  }
+  // Bag penalty
+  if (team1Bags >= 10) {
+    team1Score -= 100;
+    team1Bags -= 10;
+  }
+  if (team2Bags >= 10) {
+    team2Score -= 100;
+    team2Bags -= 10;
+  }
+  return {
+    team1Score,
+    team2Score,
+    team1Bags,
+    team2Bags,
+    tricksPerPlayer,
+  };
+}
+
+export interface SoloHandSummary {
+  playerScores: number[];
+  playerBags: number[];
+  tricksPerPlayer: number[];
+}
+
+export function isSoloGame(game: Game): boolean {
+  return (game.gameMode ?? game.rules?.gameType) === 'SOLO';
+}
+
+// Cutthroat: every seat plays its own contract, bags and bag penalty
+export function calculateSoloHandScore(game: Game): SoloHandSummary {
+  if (!game.bidding || !game.play) {
+    throw new Error('Invalid game state for scoring');
+  }
+  const tricksPerPlayer = [0, 0, 0, 0];
+  for (const trick of game.play.tricks) {
+    tricksPerPlayer[trick.winnerIndex]++;
+  }
+  const playerScores = [0, 0, 0, 0];
+  const playerBags = [0, 0, 0, 0];
+  for (let i = 0; i < 4; i++) {
+    const bid = game.bidding.bids[i] ?? 0;
+    const tricks = tricksPerPlayer[i];
+    const nilValue = !isNilBid(game.rules, bid) ? 0 : bid === BLIND_NIL ? 200 : 100;
+    if (nilValue) {
+      // A failed nil costs the nil value and its tricks count as bags
+      playerScores[i] = tricks === 0 ? nilValue : -nilValue;
+      playerBags[i] = tricks;
+    } else if (tricks >= bid) {
+      playerBags[i] = tricks - bid;
+      playerScores[i] = bid * 10 + playerBags[i];
+    } else {
+      playerScores[i] = -bid * 10;
+    }
+  }
+  return { playerScores, playerBags, tricksPerPlayer };
+}
+
+/** Applies the 10-bag penalty to a running bag count. */
+export function applyBagPenalty(bags: number): { bags: number; penalty: number } {
+  return bags >= 10 ? { bags: bags - 10, penalty: -100 } : { bags, penalty: 0 };
+}
+
+/** Score limits that end a game, taken from the creator's settings in `Game.rules`. */
+export interface GameLimits {
+  maxPoints: number;
+  minPoints: number;
+  tieBreak: TieBreak;
+}
+
+export const DEFAULT_GAME_LIMITS: GameLimits = {
+  maxPoints: 500,
+  minPoints: -150,
+  tieBreak: 'HIGHER_SCORE',
+};
+
+export function getGameLimits(game: Game): GameLimits {
+  return {
+    maxPoints: game.rules?.maxPoints ?? game.maxPoints ?? DEFAULT_GAME_LIMITS.maxPoints,
+    minPoints: game.rules?.minPoints ?? game.minPoints ?? DEFAULT_GAME_LIMITS.minPoints,
+    tieBreak: game.rules?.tieBreak ?? DEFAULT_GAME_LIMITS.tieBreak,
+  };
+}
+
+// Whether each team has a claim on the game: it reached maxPoints or the opponents fell to minPoints
+function getClaims(team1TotalScore: number, team2TotalScore: number, limits: GameLimits) {
+  return {
+    team1: team1TotalScore >= limits.maxPoints || team2TotalScore <= limits.minPoints,
+    team2: team2TotalScore >= limits.maxPoints || team1TotalScore <= limits.minPoints,
+  };
+}
+
+/** Both teams crossed a limit, so the tie-break rule decides the game. */
+export function isTieBreakSituation(team1TotalScore: number, team2TotalScore: number, limits: GameLimits): boolean {
+  const claims = getClaims(team1TotalScore, team2TotalScore, limits);
+  return claims.team1 && claims.team2;
+}
+
+/**
+ * Decides whether the running totals end the game.
+ * Returns the winning team (1 or 2) or null while the game continues.
+ *
+ * When both teams cross a limit on the same hand, HIGHER_SCORE ends the game
+ * right away, while PLAY_ANOTHER_HAND plays one more hand first (pass
+ * `isTieBreakHand` once that hand is done). Equal totals always play on.
+ */
+export function getGameWinner(
+  team1TotalScore: number,
+  team2TotalScore: number,
+  limits: GameLimits = DEFAULT_GAME_LIMITS,
+  isTieBreakHand = false
+): 1 | 2 | null {
+  const claims = getClaims(team1TotalScore, team2TotalScore, limits);
+  if (claims.team1 !== claims.team2) return claims.team1 ? 1 : 2;
+  if (!claims.team1) return null;
+  if (team1TotalScore === team2TotalScore) return null;
+  if (limits.tieBreak === 'PLAY_ANOTHER_HAND' && !isTieBreakHand) return null;
+  return team1TotalScore > team2TotalScore ? 1 : 2;
+}
+
+/** Seat indexes ordered by running total, first place first. Earlier seats win exact ties. */
+export function getSoloPlacements(playerScores: number[]): number[] {
+  return [0, 1, 2, 3].sort((a, b) => playerScores[b] - playerScores[a] || a - b);
+}
+
+/**
+ * Solo counterpart of getGameWinner: the game ends once any player reaches
+ * maxPoints or falls to minPoints, and players finish in score order.
+ * Returns the placements, or null while the game continues. Several players
+ * past maxPoints on the same hand go through the table's tie-break, and a tie
+ * for first always plays on.
+ */
+export function getSoloGameResult(
+  playerScores: number[],
+  limits: GameLimits = DEFAULT_GAME_LIMITS,
+  isTieBreakHand = false
+): number[] | null {
+  const reachedMax = playerScores.filter(score => score >= limits.maxPoints).length;
+  const fellToMin = playerScores.some(score => score <= limits.minPoints);
+  if (reachedMax === 0 && !fellToMin) return null;
+  const placements = getSoloPlacements(playerScores);
+  if (playerScores[placements[0]] === playerScores[placements[1]]) return null;
+  if (reachedMax > 1 && limits.tieBreak === 'PLAY_ANOTHER_HAND' && !isTieBreakHand) return null;
+  return placements;
+}
+
+/** Several players past maxPoints at once, so the tie-break rule decides the game. */
+export function isSoloTieBreakSituation(playerScores: number[], limits: GameLimits): boolean {
+  return playerScores.filter(score => score >= limits.maxPoints).length > 1;
+}
@@ -0,0 +1,36 @@
+import type { Card, Game, Rank, Suit } from '../types/game';
+
+// Fixtures for the engine specs. Cards are written rank first, e.g. '10H' or 'AS'
+export const card = (code: string): Card => ({ rank: code.slice(0, -1) as Rank, suit: code.slice(-1) as Suit });
+export const hand = (...codes: string[]): Card[] => codes.map(card);
+
+/** A full four-seat table on the given rules; specs add the bidding or play state they need. */
+export function makeGame(rules: Partial<Game['rules']> = {}, overrides: Partial<Game> = {}): Game {
+  return {
+    id: 'test',
+    creatorId: 'p0',
+    gameMode: rules.gameType ?? 'PARTNERS',
+    maxPoints: 500,
+    minPoints: -150,
+    buyIn: 0,
+    forcedBid: 'NONE',
+    specialRules: {},
+    players: [0, 1, 2, 3].map(i => ({ id: `p${i}`, username: `P${i}`, avatar: null, type: 'human' as const, position: i })),
+    spectators: [],
+    status: 'BIDDING',
+    completedTricks: [],
+    rules: {
+      gameType: 'PARTNERS',
+      allowNil: true,
+      allowBlindNil: false,
+      coinAmount: 0,
+      maxPoints: 500,
+      minPoints: -150,
+      bidType: 'REG',
+      gimmickType: null,
+      ...rules,
+    },
+    isBotGame: false,
+    ...overrides,
+  };
+}
@@ -12,10 +12,33 @@ import { PrismaClient } from '@prisma/client';
 
 import authRoutes from './routes/auth.routes';
 import discordRoutes from './routes/discord.routes';
-import gamesRoutes, { games, assignDealer, dealCards } from './routes/games.routes';
+import gamesRoutes, {
+  games,
+  startNewHand,
+  registerGameSocketHandlers,
+  advanceTurnOrBotMove,
+  restoreGames,
+  holdSeatsForUser,
+  resumeSeat,
+  leaveSeat,
+  isAtTable,
+  sendSystemMessage,
+  emitGamesUpdated,
+  getSpectatorRoom,
+  isSpectating,
+  addSpectator,
+  removeSpectator,
+  stopSpectating,
+  checkTableAccess,
+  seatingChanged,
+  getStartError,
+} from './routes/games.routes';
 import usersRoutes from './routes/users.routes';
 import socialRoutes from './routes/social.routes';
 import './config/passport';
+import { checkpointGame } from './services/gamePersistence.service';
+import { collectBuyIns, type CoinBalance } from './services/coinSettlement.service';
+import { enrichGameForClient, type ClientGameView } from './services/gameView.service';
 import type { Game, GamePlayer } from './types/game';
 
 const app = express();
@@ -131,57 +154,55 @@ app.use('/api/users', usersRoutes);
 app.use('/api/social', socialRoutes);
 
 // Socket.IO connection handling
-io.use((socket: AuthenticatedSocket, next) => {
+io.use(async (socket: AuthenticatedSocket, next) => {
   const auth = socket.handshake.auth;
   const authHeader = socket.handshake.headers.authorization;
   const token = auth?.token || (authHeader && authHeader.split(' ')[1]);
 
   console.log('Socket auth attempt:', {
-    hasUserId: !!auth?.userId,
     hasToken: !!token,
-    socketId: socket.id,
-    headers: socket.handshake.headers,
-    auth: auth
+    socketId: socket.id
   });
 
-  if (!auth?.userId || !token) {
-    console.log('Authentication failed: Missing userId or token');
+  if (!token) {
+    console.log('Authentication failed: Missing token');
     return next(new Error('Authentication required'));
   }
 
+  // Who the socket belongs to comes from the token alone, and their name and avatar from the database
+  let userId: string;
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as { userId: string };
-    console.log('Token decoded:', {
-      decodedUserId: decoded.userId,
-      authUserId: auth.userId,
-      match: decoded.userId === auth.userId
-    });
-
-    // Extract the actual user ID from the auth object
-    const authUserId = typeof auth.userId === 'object' && auth.userId.user ? auth.userId.user.id : auth.userId;
-
-    if (decoded.userId === authUserId) {
-      socket.userId = authUserId;
-      socket.auth = { 
-        ...auth, 
-        token,
-        userId: authUserId,
-        username: typeof auth.userId === 'object' && auth.userId.user ? auth.userId.user.username : undefined,
-        avatar: typeof auth.userId === 'object' && auth.userId.user ? auth.userId.user.avatar : undefined
-      };
-      socket.isAuthenticated = true;
-      console.log('Socket authenticated successfully:', {
-        userId: socket.userId,
-        socketId: socket.id
-      });
-      return next();
-    }
-    console.log('Authentication failed: Token userId mismatch');
-    return next(new Error('Invalid token'));
+    userId = (jwt.verify(token, process.env.JWT_SECRET!) as { userId: string }).userId;
   } catch (err) {
     console.error('Token verification error:', err);
     return next(new Error('Invalid token'));
   }
+  try {
+    const user: { id: string; username: string; avatar: string | null } | null = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, username: true, avatar: true }
+    });
+    if (!user) {
+      console.log('Authentication failed: No user for token');
+      return next(new Error('Invalid token'));
+    }
+    socket.userId = user.id;
+    socket.auth = {
+      token,
+      userId: user.id,
+      username: user.username,
+      avatar: user.avatar || undefined
+    };
+    socket.isAuthenticated = true;
+    console.log('Socket authenticated successfully:', {
+      userId: socket.userId,
+      socketId: socket.id
+    });
+    return next();
+  } catch (err) {
+    console.error('Failed to load socket user:', err);
+    return next(new Error('Authentication failed'));
+  }
 });
 
 io.on('connection', (socket: AuthenticatedSocket) => {
@@ -207,6 +228,9 @@ io.on('connection', (socket: AuthenticatedSocket) => {
     });
   }
 
+  // Bidding and card play
+  registerGameSocketHandlers(socket);
+
   // Handle chat messages
   socket.on('chat_message', ({ gameId, message }) => {
     if (!socket.isAuthenticated || !socket.userId) {
@@ -219,33 +243,59 @@ io.on('connection', (socket: AuthenticatedSocket) => {
       return;
     }
 
-    if (!gameId || !message) {
+    const text = typeof message?.message === 'string' ? message.message.trim() : '';
+    if (!gameId || !text) {
       console.log('Invalid chat message format:', { gameId, message });
       return;
     }
 
-    // Validate message format
-    if (!message.userId || !message.message) {
-      console.log('Invalid message format:', message);
+    // Only the table's players may talk there; spectators have their own channel
+    const game = games.find((g: Game) => g.id === gameId);
+    if (!game || !isAtTable(game, socket.userId) || isSpectating(game, socket.userId)) {
+      socket.emit('error', { message: 'You are not seated at this table' });
       return;
     }
 
-    // Add timestamp and ID if not present
+    // The sender is always the socket's own user, whatever the payload claims
     const enrichedMessage = {
-      ...message,
-      id: message.id || `${message.userId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      timestamp: message.timestamp || Date.now(),
-      userName: message.userName || (message.userId === 'system' ? 'System' : socket.auth?.username || 'Unknown')
+      id: `${socket.userId}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+      userId: socket.userId,
+      userName: socket.auth?.username || 'Unknown',
+      message: text,
+      timestamp: Date.now(),
+      isGameMessage: true
     };
 
-    console.log('Broadcasting chat message:', {
+    // Broadcast to game room; spectators follow the table chat too
+    io.to(gameId).to(getSpectatorRoom(gameId)).emit('chat_message', { gameId, message: enrichedMessage });
+  });
+
+  // Spectator chat, which the players never see
+  socket.on('spectator_chat_message', ({ gameId, message }) => {
+    if (!socket.isAuthenticated || !socket.userId) {
+      socket.emit('error', { message: 'Not authenticated' });
+      return;
+    }
+
+    const text = typeof message?.message === 'string' ? message.message.trim() : '';
+    const game = games.find((g: Game) => g.id === gameId);
+    if (!text || !game) return;
+    if (!isSpectating(game, socket.userId)) {
+      socket.emit('error', { message: 'You are not spectating this table' });
+      return;
+    }
+
+    io.to(getSpectatorRoom(gameId)).emit('spectator_chat_message', {
       gameId,
-      message: enrichedMessage,
-      room: socket.rooms.has(gameId)
+      message: {
+        id: `${socket.userId}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+        userId: socket.userId,
+        userName: socket.auth?.username || 'Unknown',
+        message: text,
+        timestamp: Date.now(),
+        isGameMessage: true
+      }
     });
-
-    // Broadcast to game room
-    io.to(gameId).emit('chat_message', { gameId, message: enrichedMessage });
   });
 
   // Handle lobby chat messages
@@ -260,27 +310,21 @@ io.on('connection', (socket: AuthenticatedSocket) => {
       return;
     }
 
-    if (!message || !message.message) {
+    const text = typeof message?.message === 'string' ? message.message.trim() : '';
+    if (!text) {
       console.log('Invalid lobby message format:', message);
       return;
     }
 
-    // Validate message format
-    if (!message.userId) {
-      console.log('Invalid lobby message format:', message);
-      return;
-    }
-
-    // Add timestamp and ID if not present
+    // The sender is always the socket's own user, whatever the payload claims
     const enrichedMessage = {
-      ...message,
-      id: message.id || `${message.userId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      timestamp: message.timestamp || Date.now(),
-      userName: message.userName || socket.auth?.username || 'Unknown'
+      id: `${socket.userId}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+      userId: socket.userId,
+      userName: socket.auth?.username || 'Unknown',
+      message: text,
+      timestamp: Date.now()
     };
 
-    console.log('Broadcasting lobby message:', enrichedMessage);
-
     // Broadcast to all connected clients
     io.emit('lobby_chat_message', enrichedMessage);
   });
@@ -292,9 +336,12 @@ io.on('connection', (socket: AuthenticatedSocket) => {
       userId: socket.userId
     });
 
-    if (socket.userId) {
+    // Only the user's latest connection counts; an older tab closing changes nothing
+    if (socket.userId && authenticatedSockets.get(socket.userId) === socket) {
       authenticatedSockets.delete(socket.userId);
       onlineUsers.delete(socket.userId);
+      holdSeatsForUser(socket.userId);
+      stopSpectating(socket.userId);
       io.emit('online_users', Array.from(onlineUsers));
       console.log('User disconnected:', {
         userId: socket.userId,
@@ -303,8 +350,8 @@ io.on('connection', (socket: AuthenticatedSocket) => {
     }
   });
 
-  // Join game room for real-time updates
-  socket.on('join_game', ({ gameId }) => {
+  // Join game room for real-time updates; spectators pass spectate and are never seated
+  socket.on('join_game', async ({ gameId, spectate, inviteCode }) => {
     if (!socket.isAuthenticated || !socket.userId) {
       console.log('Unauthorized join_game attempt:', { 
         socketId: socket.id, 
@@ -323,12 +370,36 @@ io.on('connection', (socket: AuthenticatedSocket) => {
         return;
       }
 
-      // Check if user is already in the game
-      const isPlayerInGame = game.players.some((player: GamePlayer | null) => 
-        player && player.id === socket.userId
-      );
+      const isSeated = isAtTable(game, socket.userId) && !isSpectating(game, socket.userId);
+      if (!isSeated && (spectate || isSpectating(game, socket.userId))) {
+        // Spectators dropped on disconnect come back through here
+        if (!isSpectating(game, socket.userId)) {
+          const error = await checkTableAccess(game, socket.userId, { inviteCode }) ?? addSpectator(game, {
+            id: socket.userId,
+            username: socket.auth?.username || 'Unknown',
+            avatar: socket.auth?.avatar || '/default-pfp.jpg',
+            type: 'human',
+          });
+          if (error) {
+            socket.emit('error', { message: error });
+            return;
+          }
+          emitGameUpdateToPlayers(game);
+          emitGamesUpdated();
+        }
+        socket.join(getSpectatorRoom(gameId));
+        socket.emit('joined_game_room', { gameId });
+        socket.emit('game_update', spectatorViews.get(gameId) ?? enrichGameForClient(game));
+        return;
+      }
 
-      if (!isPlayerInGame) {
+      // A refresh comes back through here rather than resume_game, seated or stood in for by a bot
+      if (!resumeSeat(game, socket.userId)) {
+        const accessError = await checkTableAccess(game, socket.userId, { inviteCode });
+        if (accessError) {
+          socket.emit('error', { message: accessError });
+          return;
+        }
         // Find an empty seat
         const emptySeatIndex = game.players.findIndex((player: GamePlayer | null) => player === null);
         if (emptySeatIndex === -1) {
@@ -343,7 +414,11 @@ io.on('connection', (socket: AuthenticatedSocket) => {
           username: socket.auth?.username || 'Unknown',
           avatar: socket.auth?.avatar || '/default-avatar.png',
           type: 'human',
+          position: emptySeatIndex,
         };
+        seatingChanged(game);
+        checkpointGame(game);
+        sendSystemMessage(game, `${socket.auth?.username || 'A player'} joined the game.`);
       }
 
       // Join the game room
@@ -355,16 +430,37 @@ io.on('connection', (socket: AuthenticatedSocket) => {
       socket.emit('game_update', enrichGameForClient(game, socket.userId));
       // Notify all clients about games update
       emitGameUpdateToPlayers(game);
-      io.emit('games_updated', games);
+      emitGamesUpdated();
     } catch (error) {
       console.error('Error in join_game:', error);
       socket.emit('error', { message: 'Internal server error' });
     }
   });
 
+  // Pick a held seat back up after a dropped connection, with everything missed since
+  socket.on('resume_game', ({ gameId }) => {
+    if (!socket.isAuthenticated || !socket.userId) {
+      socket.emit('error', { message: 'Not authenticated' });
+      return;
+    }
+
+    const game = games.find((g: Game) => g.id === gameId);
+    if (!game || !resumeSeat(game, socket.userId)) {
+      socket.emit('resume_failed', { gameId, message: game ? 'Your seat is no longer held' : 'Game not found' });
+      return;
+    }
+
+    socket.join(gameId);
+    console.log(`User ${socket.userId} resumed game ${gameId}`);
+    // The player's own snapshot: hand, current trick, bids and scores
+    socket.emit('game_resumed', enrichGameForClient(game, socket.userId));
+    emitGameUpdateToPlayers(game);
+  });
+
   // Leave game event
-  socket.on('leave_game', ({ gameId, userId }) => {
-    if (!socket.isAuthenticated || !socket.userId || socket.userId !== userId) {
+  socket.on('leave_game', ({ gameId }) => {
+    const userId = socket.userId;
+    if (!socket.isAuthenticated || !userId) {
       console.log('Unauthorized leave_game attempt');
       socket.emit('error', { message: 'Not authorized' });
       return;
@@ -378,27 +474,15 @@ io.on('connection', (socket: AuthenticatedSocket) => {
         return;
       }
 
-      // Remove the player from the game
-      const playerIdx = game.players.findIndex((p: GamePlayer | null) => p && p.id === userId);
-      if (playerIdx !== -1) {
-        game.players[playerIdx] = null;
-        socket.leave(gameId);
-        // Emit game_update to the game room for real-time sync
+      // Remove the player from the game; the table closes once no humans are left
+      socket.leave(gameId);
+      socket.leave(getSpectatorRoom(gameId));
+      if (removeSpectator(game, userId)) {
         emitGameUpdateToPlayers(game);
-        io.emit('games_updated', games);
-        console.log(`User ${userId} left game ${gameId}`);
-      }
-
-      // Remove the game if there are no human players left
-      const hasHumanPlayers = game.players.some((p: GamePlayer | null) => p && p.type === 'human');
-      if (!hasHumanPlayers) {
-        const gameIdx = games.findIndex((g: Game) => g.id === gameId);
-        if (gameIdx !== -1) {
-          games.splice(gameIdx, 1);
-          io.emit('games_updated', games);
-          console.log(`Game ${gameId} removed (no human players left)`);
-        }
+        emitGamesUpdated();
+        return;
       }
+      leaveSeat(game, userId);
     } catch (error) {
       console.error('Error in leave_game:', error);
       socket.emit('error', { message: 'Internal server error' });
@@ -413,62 +497,49 @@ io.on('connection', (socket: AuthenticatedSocket) => {
         socket.emit('error', { message: 'Game not found' });
         return;
       }
+      if (game.creatorId !== socket.userId) {
+        socket.emit('error', { message: 'Only the table creator can start the game' });
+        return;
+      }
       if (game.status !== 'WAITING') {
         socket.emit('error', { message: 'Game already started' });
         return;
       }
-      // Only deduct coins if all 4 players are human
+      const startError = getStartError(game);
+      if (startError) {
+        socket.emit('error', { message: startError });
+        return;
+      }
+      // Only take buy-ins if all 4 players are human
       const allHuman = game.players.length === 4 && game.players.every(p => p && p.type === 'human');
       if (allHuman) {
         try {
-          for (const player of game.players) {
-            if (player && player.type === 'human') {
-              await prisma.user.update({
-                where: { id: player.id },
-                data: { coins: { decrement: game.buyIn } }
-              });
-            }
+          const buyIns = await collectBuyIns(game);
+          if (!buyIns.ok) {
+            socket.emit('error', { message: buyIns.error });
+            return;
           }
+          emitCoinBalances(buyIns.balances);
         } catch (err) {
+          console.error('Failed to collect buy-ins:', err);
           socket.emit('error', { message: 'Failed to debit coins from players' });
           return;
         }
       }
       game.isBotGame = !allHuman;
-      game.status = 'BIDDING';
-      // Dealer assignment and card dealing
-      const dealerIndex = assignDealer(game.players, game.dealerIndex);
-      game.dealerIndex = dealerIndex;
-      // Assign dealer chip/flag for UI
-      game.players.forEach((p, i) => {
-        if (p) p.isDealer = (i === dealerIndex);
-      });
-      const hands = dealCards(game.players, dealerIndex);
-      game.hands = hands;
-      // Bidding phase state
-      const firstBidder = game.players[(dealerIndex + 1) % 4];
-      if (!firstBidder) {
-        throw new Error('Invalid game state: no first bidder found');
-      }
-      game.bidding = {
-        currentPlayer: firstBidder.id,
-        currentBidderIndex: (dealerIndex + 1) % 4,
-        bids: [null, null, null, null],
-        nilBids: {}
-      };
-      // Emit to all players
-      io.emit('games_updated', games);
+      // Dealer assignment, card dealing and bidding phase state
+      startNewHand(game);
+      // Emit to all players; each player's hand goes out with their own game_update
+      emitGamesUpdated();
       io.to(game.id).emit('game_started', {
-        dealerIndex,
-        hands: hands.map((hand, i) => ({
-          playerId: game.players[i]?.id,
-          hand
-        })),
+        dealerIndex: game.dealerIndex,
         bidding: game.bidding,
       });
+      sendSystemMessage(game, 'Game started! GOOD LUCK!');
       // Emit game_update for client sync
       console.log('[DEBUG] Emitting game_update:', JSON.stringify(game, null, 2));
       emitGameUpdateToPlayers(game);
+      advanceTurnOrBotMove(game);
     } catch (err) {
       console.error('Error in start_game handler:', err);
       socket.emit('error', { message: 'Failed to start game' });
@@ -503,52 +574,96 @@ io.engine.on('upgradeError', (err) => {
   console.error('Upgrade error:', err);
 });
 
-// Helper to enrich game object for client
-function enrichGameForClient(game: Game, userId?: string): Game {
-  if (!game) return game;
-  const hands = game.hands || [];
-  const dealerIndex = game.dealerIndex;
-  // Find the index of the player with userId
-  const handIndex = userId ? (game.players || []).findIndex(p => p && p.id === userId) : -1;
-  return {
-    ...game,
-    players: (game.players || []).map((p: GamePlayer | null, i: number) => {
-      if (!p) return null;
-      return {
-        ...p,
-        hand: userId && p.id === userId && handIndex !== -1 ? hands[handIndex] || [] : undefined,
-        isDealer: dealerIndex !== undefined ? i === dealerIndex : !!p.isDealer,
-      };
-    })
-  };
+// Spectators on tables that reveal hands see the table this long after the players do
+const SPECTATOR_REVEAL_DELAY_MS = Number(process.env.SPECTATOR_REVEAL_DELAY_MS) || 30000;
+// The last view each game's spectators were sent, for anyone who starts watching in between
+const spectatorViews = new Map<string, ClientGameView>();
+// Delayed reveals still on their way, per game, so they can be called off once it ends
+const spectatorRevealTimers = new Map<string, NodeJS.Timeout[]>();
+
+/** Drops a game's spectator feed: the last view sent and any reveal still pending. */
+export function clearSpectatorViews(gameId: string) {
+  for (const timer of spectatorRevealTimers.get(gameId) ?? []) clearTimeout(timer);
+  spectatorRevealTimers.delete(gameId);
+  spectatorViews.delete(gameId);
+}
+
+function emitGameUpdateToSpectators(game: Game) {
+  const revealHands = !!game.rules.revealHandsToSpectators;
+  // Nothing can be passed on once the game is over, so spectators see the end straight away
+  if (game.status === 'COMPLETED') {
+    clearSpectatorViews(game.id);
+    io.to(getSpectatorRoom(game.id)).emit('game_update', enrichGameForClient(game, undefined, { revealHands }));
+    return;
+  }
+  if (!revealHands) {
+    const view = enrichGameForClient(game);
+    spectatorViews.set(game.id, view);
+    io.to(getSpectatorRoom(game.id)).emit('game_update', view);
+    return;
+  }
+  // Snapshot now, send later: every hand is in it
+  const view: ClientGameView = JSON.parse(JSON.stringify(enrichGameForClient(game, undefined, { revealHands: true })));
+  const timer = setTimeout(() => {
+    const pending = (spectatorRevealTimers.get(game.id) ?? []).filter(t => t !== timer);
+    if (pending.length > 0) {
+      spectatorRevealTimers.set(game.id, pending);
+    } else {
+      spectatorRevealTimers.delete(game.id);
+    }
+    spectatorViews.set(game.id, view);
+    io.to(getSpectatorRoom(game.id)).emit('game_update', view);
+  }, SPECTATOR_REVEAL_DELAY_MS);
+  spectatorRevealTimers.set(game.id, [...(spectatorRevealTimers.get(game.id) ?? []), timer]);
 }
 
-// Helper to emit game update to all players with their own hands
-function emitGameUpdateToPlayers(game: Game) {
+// Helper to emit game update to all players with their own hands, and to the spectators
+export function emitGameUpdateToPlayers(game: Game) {
+  emitGameUpdateToSpectators(game);
   game.players.forEach((player) => {
-    if (player && player.id) {
-      const playerSocket = authenticatedSockets.get(player.id);
+    // Players a bot is standing in for keep watching their table
+    for (const id of [player?.id, player?.standingInFor?.id]) {
+      const playerSocket = id && authenticatedSockets.get(id);
       if (playerSocket) {
-        playerSocket.emit('game_update', enrichGameForClient(game, player.id));
+        playerSocket.emit('game_update', enrichGameForClient(game, id));
       }
     }
   });
 }
 
+// Sends an event to a user's live connection; false when they aren't online
+export function notifyUser(userId: string, event: string, payload: unknown): boolean {
+  const socket = authenticatedSockets.get(userId);
+  socket?.emit(event, payload);
+  return !!socket;
+}
+
+// Tells each user whose balance changed what it is now
+export function emitCoinBalances(balances: CoinBalance[]) {
+  for (const balance of balances) {
+    authenticatedSockets.get(balance.userId)?.emit('coins_updated', balance);
+  }
+}
+
 const PORT = Number(process.env.PORT) || 3000;
 
-httpServer.listen(PORT, '0.0.0.0', () => {
-  console.log(`Server is running on port ${PORT}`);
-  console.log('Server configuration:', {
-    port: PORT,
-    env: process.env.NODE_ENV,
-    cors: {
-      allowedOrigins,
-      credentials: true
-    },
-    socket: {
-      path: '/socket.io',
-      transports: ['polling', 'websocket']
-    }
+// Bring back the tables that were live before a restart, then start accepting connections
+restoreGames()
+  .catch(err => console.error('Failed to restore saved games:', err))
+  .finally(() => {
+    httpServer.listen(PORT, '0.0.0.0', () => {
+      console.log(`Server is running on port ${PORT}`);
+      console.log('Server configuration:', {
+        port: PORT,
+        env: process.env.NODE_ENV,
+        cors: {
+          allowedOrigins,
+          credentials: true
+        },
+        socket: {
+          path: '/socket.io',
+          transports: ['polling', 'websocket']
+        }
+      });
+    });
   });
-}); 
\ No newline at end of file
@@ -1,6 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 
+// What authenticateToken leaves on the request for the handlers behind it
+export interface AuthenticatedRequest extends Request {
+  user: Express.User & { userId: string };
+}
+
 export const authenticateToken = (
   req: Request,
   res: Response,
@@ -20,8 +25,13 @@ export const authenticateToken = (
     (req as any).user = decoded;
     next();
   } catch (error) {
-    return res.status(403).json({
+    return res.status(401).json({
       message: 'Invalid or expired token',
     });
   }
-}; 
\ No newline at end of file
+};
+
+/** The id of the user the request's token was issued to. Only valid behind authenticateToken. */
+export function getAuthUserId(req: Request): string {
+  return (req as AuthenticatedRequest).user.userId;
+} 
\ No newline at end of file
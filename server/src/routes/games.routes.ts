@@ -1,9 +1,26 @@
 import { Router } from 'express';
+import { randomBytes } from 'crypto';
+import bcrypt from 'bcryptjs';
 import { v4 as uuidv4 } from 'uuid';
-import type { Game, GamePlayer, Card, Suit, Rank, BiddingOption, GamePlayOption } from '../types/game';
-import { io } from '../index';
+import type { Game, GamePlayer, Card, BiddingOption, GimmickType, TieBreak, BotDifficulty, TableVisibility } from '../types/game';
+import { io, emitCoinBalances, emitGameUpdateToPlayers, notifyUser, clearSpectatorViews } from '../index';
 import { PrismaClient } from '@prisma/client';
 import type { AuthenticatedSocket } from '../index';
+import { cancelGame, checkpointGame, loadActiveGames, loadGameReplay, recordHand } from '../services/gamePersistence.service';
+import { collectBuyIns, isWinningSeat, refundBuyIns, settleGame } from '../services/coinSettlement.service';
+import { enrichGameForClient } from '../services/gameView.service';
+import { authenticateToken, getAuthUserId } from '../middleware/auth.middleware';
+import {
+  applyAction,
+  createDeck,
+  DEFAULT_GAME_LIMITS,
+  getBlindNilSeats,
+  getForcedBid,
+  getBotAction,
+  getTimeoutAction,
+  type ActionResult,
+  type GameAction,
+} from '../engine';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -11,23 +28,100 @@ const prisma = new PrismaClient();
 // In-memory games store
 export const games: Game[] = [];
 
-// Create a new game
-router.post('/', (req, res) => {
+const BIDDING_OPTIONS: BiddingOption[] = ['REG', 'WHIZ', 'MIRROR', 'GIMMICK'];
+// Gimmick option values sent by the create game modal
+const GIMMICK_OPTIONS: Record<string, GimmickType> = {
+  suicide: 'SUICIDE',
+  bid4orNil: 'BID4NIL',
+  bid3: 'BID3',
+  bidHearts: 'BIDHEARTS',
+};
+
+// Seconds per turn a table may be created with; 0 means no clock
+const TURN_TIMER_OPTIONS = [0, 15, 30, 60];
+// How many spectators a table may be created to take; 0 means none
+const SPECTATOR_LIMIT_OPTIONS = [0, 5, 10, 20];
+// Tables saved before there was a limit take this many
+const DEFAULT_MAX_SPECTATORS = 10;
+const TABLE_VISIBILITIES: TableVisibility[] = ['PUBLIC', 'UNLISTED', 'PASSWORD'];
+
+// The create game modal steps buy-ins by 50k from 100k up to 1M, then by 100k; 0 is a free table
+function isBuyInOption(buyIn: number): boolean {
+  if (!Number.isInteger(buyIn)) return false;
+  if (buyIn === 0) return true;
+  return buyIn >= 100000 && buyIn % (buyIn > 1000000 ? 100000 : 50000) === 0;
+}
+
+// Create a new game, seating its creator
+router.post('/', authenticateToken, async (req, res) => {
   try {
     const settings = req.body;
+    const creator = await prisma.user.findUnique({ where: { id: getAuthUserId(req) } });
+    if (!creator) return res.status(401).json({ error: 'User not found' });
+    const buyIn = Number(settings.buyIn ?? 0);
+    if (!isBuyInOption(buyIn)) {
+      return res.status(400).json({ error: 'Invalid buy-in' });
+    }
+    if (creator.coins < buyIn) {
+      return res.status(400).json({ error: 'Not enough coins for this buy-in' });
+    }
+    const maxPoints = Number(settings.maxPoints ?? DEFAULT_GAME_LIMITS.maxPoints);
+    const minPoints = Number(settings.minPoints ?? DEFAULT_GAME_LIMITS.minPoints);
+    if (!Number.isInteger(maxPoints) || maxPoints < 100 || maxPoints > 650) {
+      return res.status(400).json({ error: 'maxPoints must be between 100 and 650' });
+    }
+    if (!Number.isInteger(minPoints) || minPoints < -250 || minPoints > -100) {
+      return res.status(400).json({ error: 'minPoints must be between -250 and -100' });
+    }
+    const tieBreak: TieBreak = settings.tieBreak === 'PLAY_ANOTHER_HAND' ? 'PLAY_ANOTHER_HAND' : 'HIGHER_SCORE';
+    const turnTimeLimit = Number(settings.turnTimer ?? 0);
+    if (!TURN_TIMER_OPTIONS.includes(turnTimeLimit)) {
+      return res.status(400).json({ error: 'Turn timer must be off, 15, 30 or 60 seconds' });
+    }
+    const maxSpectators = Number(settings.maxSpectators ?? DEFAULT_MAX_SPECTATORS);
+    if (!SPECTATOR_LIMIT_OPTIONS.includes(maxSpectators)) {
+      return res.status(400).json({ error: 'Spectator limit must be 0, 5, 10 or 20' });
+    }
+    const visibility: TableVisibility = settings.visibility ?? 'PUBLIC';
+    if (!TABLE_VISIBILITIES.includes(visibility)) {
+      return res.status(400).json({ error: 'Invalid table visibility' });
+    }
+    const password = typeof settings.password === 'string' ? settings.password : '';
+    if (visibility === 'PASSWORD' && (password.length < 4 || password.length > 32)) {
+      return res.status(400).json({ error: 'Table password must be 4 to 32 characters' });
+    }
+    const bidType: BiddingOption = settings.biddingOption ?? 'REG';
+    if (!BIDDING_OPTIONS.includes(bidType)) {
+      return res.status(400).json({ error: 'Invalid bidding option' });
+    }
+    let gimmickType: GimmickType | null = null;
+    if (bidType === 'GIMMICK') {
+      gimmickType = GIMMICK_OPTIONS[settings.gimmickOption] ?? null;
+      if (!gimmickType) {
+        return res.status(400).json({ error: 'Select a gimmick for a GIMMICK game' });
+      }
+      if (gimmickType === 'SUICIDE' && settings.gameMode !== 'PARTNERS') {
+        return res.status(400).json({ error: 'Suicide is only available in partners games' });
+      }
+    }
+    // Suicide and Bid 4 or Nil are built around nil, so nil is always on for them
+    const allowNil = gimmickType === 'SUICIDE' || gimmickType === 'BID4NIL'
+      ? true
+      : settings.specialRules?.allowNil ?? true;
     const creatorPlayer = {
-      id: settings.creatorId,
-      username: settings.creatorName,
-      avatar: settings.creatorImage || null,
+      id: creator.id,
+      username: creator.username,
+      avatar: creator.avatar || null,
       type: 'human' as const,
     };
     const newGame: Game = {
       id: uuidv4(),
+      creatorId: creator.id,
       gameMode: settings.gameMode,
-      maxPoints: settings.maxPoints,
-      minPoints: settings.minPoints,
-      buyIn: settings.buyIn,
-      forcedBid: (settings.specialRules?.screamer ? 'SUICIDE' : 'NONE') as 'SUICIDE' | 'NONE',
+      maxPoints,
+      minPoints,
+      buyIn,
+      forcedBid: gimmickType ?? 'NONE',
       specialRules: settings.specialRules || {},
       players: [creatorPlayer, null, null, null],
       spectators: [],
@@ -35,65 +129,100 @@ router.post('/', (req, res) => {
       completedTricks: [],
       rules: {
         gameType: settings.gameMode,
-        allowNil: true,
-        allowBlindNil: false,
-        coinAmount: settings.buyIn,
-        maxPoints: settings.maxPoints,
-        minPoints: settings.minPoints,
-        bidType: 'REG' as BiddingOption,
-        gimmickType: 'REG' as GamePlayOption
+        allowNil,
+        allowBlindNil: settings.specialRules?.allowBlindNil ?? false,
+        coinAmount: buyIn,
+        maxPoints,
+        minPoints,
+        bidType,
+        gimmickType,
+        tieBreak,
+        ...(turnTimeLimit > 0 && { turnTimeLimit }),
+        maxSpectators,
+        revealHandsToSpectators: settings.revealHandsToSpectators === true,
       },
       isBotGame: false,
+      visibility,
+      ...(visibility === 'PASSWORD' && { passwordHash: await bcrypt.hash(password, 10) }),
+      inviteCode: randomBytes(6).toString('hex'),
+      allowedUserIds: [creator.id],
     };
     games.push(newGame);
-    io.emit('games_updated', games);
-    res.status(201).json(newGame);
+    checkpointGame(newGame);
+    emitGamesUpdated();
+    res.status(201).json(enrichGameForClient(newGame, creator.id));
   } catch (err) {
     console.error('Error creating game:', err);
     res.status(500).json({ error: 'Failed to create game' });
   }
 });
 
-// List all games
-router.get('/', (_req, res) => {
-  res.json(games);
+// List the lobby's games
+router.get('/', authenticateToken, (req, res) => {
+  res.json(getLobbyGames(getAuthUserId(req)));
 });
 
 // Get game details
 router.get('/:id', (req, res) => {
   const game = games.find(g => g.id === req.params.id);
   if (!game) return res.status(404).json({ error: 'Game not found' });
-  res.json(game);
+  res.json(enrichGameForClient(game));
+});
+
+// Every recorded hand of a finished game, for the replay viewer
+router.get('/:id/replay', authenticateToken, async (req, res) => {
+  try {
+    const replay = await loadGameReplay(req.params.id);
+    if (!replay) return res.status(404).json({ error: 'No finished game with that id' });
+    // The saved state still carries the table password, invite code and coin bookkeeping
+    res.json({ ...replay, game: enrichGameForClient(replay.game, getAuthUserId(req)) });
+  } catch (err) {
+    console.error('Failed to load replay:', err);
+    res.status(500).json({ error: 'Failed to load replay' });
+  }
 });
 
 // Join a game
-router.post('/:id/join', async (req, res) => {
+router.post('/:id/join', authenticateToken, async (req, res) => {
   const game = games.find(g => g.id === req.params.id);
   if (!game) return res.status(404).json({ error: 'Game not found' });
 
   // Use requested seat if provided and available
-  const requestedSeat = typeof req.body.seat === 'number' ? req.body.seat : null;
-  const playerId = req.body.id;
-  const player = {
-    id: playerId,
-    username: req.body.username || 'Unknown',
-    avatar: req.body.avatar || '/default-pfp.jpg',
-    type: 'human' as const,
-    position: requestedSeat
-  };
+  let requestedSeat = typeof req.body.seat === 'number' ? req.body.seat : null;
+  const playerId = getAuthUserId(req);
 
   // Prevent duplicate join
-  if (game.players.some(p => p && p.id === player.id)) {
+  if (game.players.some(p => p && p.id === playerId)) {
     return res.status(400).json({ error: 'Player already joined' });
   }
+  // Sitting with a partner means the seat across from them
+  const { partnerId } = req.body;
+  if (typeof partnerId === 'string' && game.gameMode === 'PARTNERS') {
+    const partnerSeat = findSeat(game, partnerId);
+    if (partnerSeat === -1) return res.status(400).json({ error: 'Your partner is not at this table' });
+    requestedSeat = (partnerSeat + 2) % 4;
+    if (game.players[requestedSeat]) {
+      return res.status(400).json({ error: 'The seat across from your partner is taken' });
+    }
+  }
+  const accessError = await checkTableAccess(game, playerId, req.body);
+  if (accessError) return res.status(403).json({ error: accessError });
 
-  // Check coin balance before seating
+  // Check coin balance before seating; the seat shows the account's own name and avatar
+  let player: GamePlayer;
   try {
     const user = await prisma.user.findUnique({ where: { id: playerId } });
-    if (!user) return res.status(404).json({ error: 'User not found' });
+    if (!user) return res.status(401).json({ error: 'User not found' });
     if (user.coins < game.buyIn) {
       return res.status(400).json({ error: 'Not enough coins to join this game' });
     }
+    player = {
+      id: user.id,
+      username: user.username,
+      avatar: user.avatar || '/default-pfp.jpg',
+      type: 'human',
+      position: requestedSeat ?? undefined
+    };
   } catch (err) {
     return res.status(500).json({ error: 'Failed to check coin balance' });
   }
@@ -108,132 +237,167 @@ router.post('/:id/join', async (req, res) => {
       return res.status(400).json({ error: 'Seat is already taken' });
     }
     game.players[requestedSeat] = player;
+    removeSpectator(game, playerId);
+    seatingChanged(game);
   } else {
     return res.status(400).json({ error: 'Invalid seat selection' });
   }
+  checkpointGame(game);
+  sendSystemMessage(game, `${player.username} joined the game.`);
 
-  res.json(game);
-  io.emit('games_updated', games);
-  // Emit game_update to the game room for real-time sync
-  io.to(game.id).emit('game_update', enrichGameForClient(game));
+  res.json(enrichGameForClient(game, playerId));
+  emitGamesUpdated();
+  emitGameUpdateToPlayers(game);
 });
 
-// Invite a bot to an empty seat (host only, pre-game)
-router.post('/:id/invite-bot', (req, res) => {
+const BOT_DIFFICULTIES: BotDifficulty[] = ['easy', 'medium', 'hard'];
+
+// Bots default to medium when the inviter doesn't pick a difficulty
+function createBotPlayer(seatIndex: number, difficulty: BotDifficulty): GamePlayer {
+  return {
+    id: `bot-${uuidv4()}`,
+    username: `Bot ${seatIndex + 1}`,
+    avatar: '/bot-avatar.jpg',
+    type: 'bot',
+    difficulty,
+    position: seatIndex
+  };
+}
+
+// Invite a bot to an empty seat (creator only, pre-game)
+router.post('/:id/invite-bot', authenticateToken, (req, res) => {
   const game = games.find(g => g.id === req.params.id);
   if (!game) return res.status(404).json({ error: 'Game not found' });
   if (game.status !== 'WAITING') return res.status(400).json({ error: 'Game already started' });
-  const { seatIndex, requesterId } = req.body;
+  const { seatIndex, difficulty = 'medium' } = req.body;
+  const requesterId = getAuthUserId(req);
+  if (!BOT_DIFFICULTIES.includes(difficulty)) return res.status(400).json({ error: 'Invalid bot difficulty' });
   // Debug logging
   console.log('[INVITE BOT] seatIndex:', seatIndex, 'requesterId:', requesterId);
   console.log('[INVITE BOT] game.players BEFORE:', JSON.stringify(game.players));
-  // Only host can invite bots
-  if (game.players[0]?.id !== requesterId) return res.status(403).json({ error: 'Only host can invite bots' });
+  // Only the creator can invite bots
+  if (game.creatorId !== requesterId) return res.status(403).json({ error: 'Only the table creator can invite bots' });
   if (seatIndex < 0 || seatIndex > 3 || game.players[seatIndex]) return res.status(400).json({ error: 'Invalid seat' });
   // Add bot
-  const botPlayer = {
-    id: `bot-${uuidv4()}`,
-    username: `Bot ${seatIndex + 1}`,
-    avatar: '/bot-avatar.jpg',
-    type: 'bot' as const,
-    position: seatIndex
-  };
+  const botPlayer = createBotPlayer(seatIndex, difficulty);
   game.players[seatIndex] = botPlayer;
   // Debug logging after mutation
   console.log('[INVITE BOT] game.players AFTER:', JSON.stringify(game.players));
   // If any seat is a bot, set isBotGame true
   game.isBotGame = game.players.some(p => p && p.type === 'bot');
-  io.emit('games_updated', games);
-  io.to(game.id).emit('game_update', enrichGameForClient(game));
-  res.json(game);
+  seatingChanged(game);
+  checkpointGame(game);
+  emitGamesUpdated();
+  emitGameUpdateToPlayers(game);
+  sendSystemMessage(game, `A ${difficulty} bot was invited to seat ${seatIndex + 1}.`);
+  res.json(enrichGameForClient(game, requesterId));
 });
 
 // Invite a bot to fill an empty seat mid-game (partner only)
-router.post('/:id/invite-bot-midgame', (req, res) => {
+router.post('/:id/invite-bot-midgame', authenticateToken, (req, res) => {
   const game = games.find(g => g.id === req.params.id);
   if (!game) return res.status(404).json({ error: 'Game not found' });
   if (game.status === 'WAITING') return res.status(400).json({ error: 'Game has not started' });
-  const { seatIndex, requesterId } = req.body;
+  const { seatIndex, difficulty = 'medium' } = req.body;
+  const requesterId = getAuthUserId(req);
+  if (!BOT_DIFFICULTIES.includes(difficulty)) return res.status(400).json({ error: 'Invalid bot difficulty' });
   if (seatIndex < 0 || seatIndex > 3 || game.players[seatIndex]) return res.status(400).json({ error: 'Seat is not empty' });
   // Find the partner seat (for 4-player games: 0<->2, 1<->3)
   const partnerSeat = (seatIndex + 2) % 4;
   if (!game.players[partnerSeat] || game.players[partnerSeat]?.id !== requesterId) {
     return res.status(403).json({ error: 'Only the partner can invite a bot for this seat' });
   }
-  // Add bot
-  const botPlayer = {
-    id: `bot-${uuidv4()}`,
-    username: `Bot ${seatIndex + 1}`,
-    avatar: '/bot-avatar.jpg',
-    type: 'bot' as const,
-    position: seatIndex
-  };
-  game.players[seatIndex] = botPlayer;
-  io.emit('games_updated', games);
-  io.to(game.id).emit('game_update', enrichGameForClient(game));
-  res.json(game);
+  replaceSeat(game, seatIndex, createBotPlayer(seatIndex, difficulty));
+  sendSystemMessage(game, `A ${difficulty} bot was invited to seat ${seatIndex + 1}.`);
+  res.json(enrichGameForClient(game, requesterId));
 });
 
 // Add a spectator to a game
-router.post('/:id/spectate', async (req, res) => {
+router.post('/:id/spectate', authenticateToken, async (req, res) => {
   const game = games.find(g => g.id === req.params.id);
   if (!game) return res.status(404).json({ error: 'Game not found' });
-  const userId = req.body.id;
-  if (!userId) return res.status(400).json({ error: 'Missing user id' });
+  const userId = getAuthUserId(req);
   // Prevent duplicate spectate
-  if (game.spectators.some(s => s.id === userId)) {
+  if (isSpectating(game, userId)) {
     return res.status(400).json({ error: 'Already spectating' });
   }
   // Prevent joining as both player and spectator
-  if (game.players.some(p => p && p.id === userId)) {
+  if (findSeat(game, userId) !== -1) {
     return res.status(400).json({ error: 'Already joined as player' });
   }
-  // Add to spectators
-  game.spectators.push({
-    id: userId,
-    username: req.body.username || 'Unknown',
-    avatar: req.body.avatar || '/default-pfp.jpg',
-    type: 'human',
+  const accessError = await checkTableAccess(game, userId, req.body);
+  if (accessError) return res.status(403).json({ error: accessError });
+  let spectator: GamePlayer;
+  try {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) return res.status(401).json({ error: 'User not found' });
+    spectator = {
+      id: userId,
+      username: user.username,
+      avatar: user.avatar || '/default-pfp.jpg',
+      type: 'human',
+    };
+  } catch (err) {
+    return res.status(500).json({ error: 'Failed to look up user' });
+  }
+  const error = addSpectator(game, spectator);
+  if (error) return res.status(403).json({ error });
+  emitGameUpdateToPlayers(game);
+  emitGamesUpdated();
+  res.json(enrichGameForClient(game, userId));
+});
+
+// Invite a friend to the table (anyone seated, pre-game); they get a game_invite if online
+router.post('/:id/invite', authenticateToken, async (req, res) => {
+  const game = games.find(g => g.id === req.params.id);
+  if (!game) return res.status(404).json({ error: 'Game not found' });
+  if (game.status !== 'WAITING') return res.status(400).json({ error: 'Game already started' });
+  const userId = getAuthUserId(req);
+  const { friendId } = req.body;
+  if (typeof friendId !== 'string' || !friendId) return res.status(400).json({ error: 'Invalid friend' });
+  const seat = game.players[findSeat(game, userId)];
+  if (!seat) return res.status(403).json({ error: 'Only players at the table can invite' });
+  if (findSeat(game, friendId) !== -1) return res.status(400).json({ error: 'Already at the table' });
+  try {
+    const friendship = await prisma.friend.findUnique({ where: { userId_friendId: { userId, friendId } } });
+    if (!friendship) return res.status(403).json({ error: 'You can only invite your friends' });
+  } catch (err) {
+    return res.status(500).json({ error: 'Failed to check friendship' });
+  }
+  // An invited friend gets in without the password
+  if (!game.allowedUserIds?.includes(friendId)) {
+    game.allowedUserIds = [...(game.allowedUserIds ?? []), friendId];
+  }
+  const delivered = notifyUser(friendId, 'game_invite', {
+    gameId: game.id,
+    inviteCode: game.inviteCode,
+    from: { id: userId, username: seat.username, avatar: seat.avatar },
   });
-  io.to(game.id).emit('game_update', game);
-  io.emit('games_updated', games);
-  res.json(game);
+  if (!delivered) return res.status(404).json({ error: 'That friend is not online' });
+  res.json({ success: true });
 });
 
 // Remove a player or spectator from a game
-router.post('/:id/leave', (req, res) => {
+router.post('/:id/leave', authenticateToken, (req, res) => {
   const game = games.find(g => g.id === req.params.id);
   if (!game) return res.status(404).json({ error: 'Game not found' });
-  const userId = req.body.id;
+  const userId = getAuthUserId(req);
   // Remove from players
   const playerIdx = game.players.findIndex(p => p && p.id === userId);
   if (playerIdx !== -1) {
     game.players[playerIdx] = null;
+    passCreatorRole(game, userId);
+    seatingChanged(game);
   }
-  // Remove from spectators
-  const specIdx = game.spectators.findIndex(s => s.id === userId);
-  if (specIdx !== -1) {
-    game.spectators.splice(specIdx, 1);
-  }
-  io.to(game.id).emit('game_update', game);
-  io.emit('games_updated', games);
-  res.json(game);
+  removeSpectator(game, userId);
+  // A finished game's saved seats are what its replay shows
+  if (game.status !== 'COMPLETED') checkpointGame(game);
+  emitGameUpdateToPlayers(game);
+  emitGamesUpdated();
+  res.json(enrichGameForClient(game, userId));
 });
 
 // --- Gameplay Helpers ---
-const SUITS: Suit[] = ['S', 'H', 'D', 'C'];
-const RANKS: Rank[] = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
-
-function createDeck(): Card[] {
-  const deck: Card[] = [];
-  for (const suit of SUITS) {
-    for (const rank of RANKS) {
-      deck.push({ suit, rank });
-    }
-  }
-  return deck;
-}
-
 function shuffle(deck: Card[]): Card[] {
   for (let i = deck.length - 1; i > 0; i--) {
     const j = Math.floor(Math.random() * (i + 1));
@@ -265,84 +429,129 @@ export function dealCards(players: (GamePlayer | null)[], dealerIndex: number):
   return hands;
 }
 
+// Pause between scoring a hand and dealing the next one, so clients can show the hand summary
+const NEW_HAND_DELAY_MS = Number(process.env.NEW_HAND_DELAY_MS) || 5000;
+
+/**
+ * Rotates the dealer, deals a fresh hand and resets bidding/play so the next
+ * hand can start. Running totals and bags carry over.
+ */
+export function startNewHand(game: Game) {
+  const dealerIndex = assignDealer(game.players, game.dealerIndex);
+  const firstBidderIndex = (dealerIndex + 1) % 4;
+  const firstBidder = game.players[firstBidderIndex];
+  if (!firstBidder) throw new Error('Invalid game state: no first bidder found');
+
+  game.dealerIndex = dealerIndex;
+  game.handNumber = (game.handNumber ?? 0) + 1;
+  game.players.forEach((p, i) => {
+    if (!p) return;
+    p.isDealer = i === dealerIndex;
+    p.bid = undefined;
+    p.tricks = 0;
+  });
+  game.hands = dealCards(game.players, dealerIndex);
+  game.completedTricks = [];
+  game.play = undefined;
+  game.bidding = {
+    currentPlayer: firstBidder.id,
+    currentBidderIndex: firstBidderIndex,
+    bids: [null, null, null, null],
+    nilBids: {},
+    awaitingBlindNil: getBlindNilSeats(game)
+  };
+  game.status = 'BIDDING';
+  resetTurnClock(game);
+  checkpointGame(game);
+}
+
+// Deals the next hand after the pause, unless the game ended or was removed meanwhile
+function scheduleNewHand(game: Game) {
+  setTimeout(() => {
+    if (!games.includes(game) || game.status !== 'PLAYING') return;
+    try {
+      startNewHand(game);
+    } catch (err) {
+      console.error('Failed to start new hand:', err);
+      return;
+    }
+    io.to(game.id).emit('new_hand_started', {
+      dealerIndex: game.dealerIndex,
+      bidding: game.bidding,
+    });
+    emitGameUpdateToPlayers(game);
+    advanceTurnOrBotMove(game);
+  }, NEW_HAND_DELAY_MS);
+}
+
 // Start the game
-router.post('/:id/start', async (req, res) => {
+router.post('/:id/start', authenticateToken, async (req, res) => {
   const game = games.find(g => g.id === req.params.id);
   if (!game) return res.status(404).json({ error: 'Game not found' });
+  if (game.creatorId !== getAuthUserId(req)) return res.status(403).json({ error: 'Only the table creator can start the game' });
   if (game.status !== 'WAITING') return res.status(400).json({ error: 'Game already started' });
+  const startError = getStartError(game);
+  if (startError) return res.status(400).json({ error: startError });
   
   // If any seat is a bot, set isBotGame true
   game.isBotGame = game.players.some(p => p && p.type === 'bot');
   
   if (!game.isBotGame) {
-    // Debit buy-in from each human player's coin balance
+    // Take the buy-in from every human player, all or nothing
     try {
-      for (const player of game.players) {
-        if (player && player.type === 'human') {
-          await prisma.user.update({
-            where: { id: player.id },
-            data: { coins: { decrement: game.buyIn } }
-          });
-        }
-      }
+      const buyIns = await collectBuyIns(game);
+      if (!buyIns.ok) return res.status(400).json({ error: buyIns.error });
+      emitCoinBalances(buyIns.balances);
     } catch (err) {
+      console.error('Failed to collect buy-ins:', err);
       return res.status(500).json({ error: 'Failed to debit coins from players' });
     }
   }
   
-  game.status = 'BIDDING';
-  
-  // --- Dealer assignment and card dealing ---
-  const dealerIndex = assignDealer(game.players, game.dealerIndex);
-  game.dealerIndex = dealerIndex;
-  const hands = dealCards(game.players, dealerIndex);
-  game.hands = hands;
-  
-  // --- Bidding phase state ---
-  const firstBidder = game.players[(dealerIndex + 1) % 4];
-  if (!firstBidder) return res.status(500).json({ error: 'Invalid game state' });
-  
-  game.bidding = {
-    currentPlayer: firstBidder.id,
-    currentBidderIndex: (dealerIndex + 1) % 4,
-    bids: [null, null, null, null],
-    nilBids: {}
-  };
+  // --- Dealer assignment, card dealing and bidding phase state ---
+  try {
+    startNewHand(game);
+  } catch (err) {
+    return res.status(500).json({ error: 'Invalid game state' });
+  }
   
-  // Emit to all players
-  io.emit('games_updated', games);
+  // Emit to all players; each player's hand goes out with their own game_update
+  emitGamesUpdated();
   io.to(game.id).emit('game_started', {
-    dealerIndex,
-    hands: hands.map((hand, i) => ({
-      playerId: game.players[i]?.id,
-      hand
-    })),
+    dealerIndex: game.dealerIndex,
     bidding: game.bidding,
   });
-  res.json(game);
+  sendSystemMessage(game, 'Game started! GOOD LUCK!');
+  emitGameUpdateToPlayers(game);
+  advanceTurnOrBotMove(game);
+  res.json(enrichGameForClient(game, getAuthUserId(req)));
 });
 
-// Remove a bot from a seat (host only, pre-game)
-router.post('/:id/remove-bot', (req, res) => {
+// Remove a bot from a seat (creator only, pre-game)
+router.post('/:id/remove-bot', authenticateToken, (req, res) => {
   const game = games.find(g => g.id === req.params.id);
   if (!game) return res.status(404).json({ error: 'Game not found' });
   if (game.status !== 'WAITING') return res.status(400).json({ error: 'Game already started' });
-  const { seatIndex, requesterId } = req.body;
-  // Only host can remove bots
-  if (game.players[0]?.id !== requesterId) return res.status(403).json({ error: 'Only host can remove bots' });
+  const { seatIndex } = req.body;
+  // Only the creator can remove bots
+  if (game.creatorId !== getAuthUserId(req)) return res.status(403).json({ error: 'Only the table creator can remove bots' });
   if (seatIndex < 0 || seatIndex > 3 || !game.players[seatIndex] || game.players[seatIndex].type !== 'bot') return res.status(400).json({ error: 'Invalid seat or not a bot' });
   game.players[seatIndex] = null;
-  io.emit('games_updated', games);
-  io.to(game.id).emit('game_update', enrichGameForClient(game));
-  res.json(game);
+  seatingChanged(game);
+  checkpointGame(game);
+  emitGamesUpdated();
+  emitGameUpdateToPlayers(game);
+  sendSystemMessage(game, `A bot was removed from seat ${seatIndex + 1}.`);
+  res.json(enrichGameForClient(game, getAuthUserId(req)));
 });
 
 // Remove a bot from a seat mid-game (partner only)
-router.post('/:id/remove-bot-midgame', (req, res) => {
+router.post('/:id/remove-bot-midgame', authenticateToken, (req, res) => {
   const game = games.find(g => g.id === req.params.id);
   if (!game) return res.status(404).json({ error: 'Game not found' });
   if (game.status === 'WAITING') return res.status(400).json({ error: 'Game has not started' });
-  const { seatIndex, requesterId } = req.body;
+  const { seatIndex } = req.body;
+  const requesterId = getAuthUserId(req);
   if (seatIndex < 0 || seatIndex > 3 || !game.players[seatIndex] || game.players[seatIndex].type !== 'bot') return res.status(400).json({ error: 'Invalid seat or not a bot' });
   // Find the partner seat (for 4-player games: 0<->2, 1<->3)
   const partnerSeat = (seatIndex + 2) % 4;
@@ -350,407 +559,689 @@ router.post('/:id/remove-bot-midgame', (req, res) => {
     return res.status(403).json({ error: 'Only the partner can remove a bot for this seat' });
   }
   game.players[seatIndex] = null;
-  io.emit('games_updated', games);
-  io.to(game.id).emit('game_update', enrichGameForClient(game));
-  res.json(game);
+  checkpointGame(game);
+  emitGamesUpdated();
+  emitGameUpdateToPlayers(game);
+  sendSystemMessage(game, `A bot was removed from seat ${seatIndex + 1}.`);
+  res.json(enrichGameForClient(game, getAuthUserId(req)));
+});
+
+// Remove a player from their seat (creator only, pre-game)
+router.post('/:id/kick', authenticateToken, (req, res) => {
+  const game = games.find(g => g.id === req.params.id);
+  if (!game) return res.status(404).json({ error: 'Game not found' });
+  if (game.status !== 'WAITING') return res.status(400).json({ error: 'Game already started' });
+  if (game.creatorId !== getAuthUserId(req)) return res.status(403).json({ error: 'Only the table creator can kick players' });
+  const { seatIndex } = req.body;
+  const player = game.players[seatIndex];
+  if (!player || player.type !== 'human' || player.id === game.creatorId) {
+    return res.status(400).json({ error: 'Invalid seat or not a player' });
+  }
+  game.players[seatIndex] = null;
+  seatingChanged(game);
+  checkpointGame(game);
+  io.to(game.id).emit('player_kicked', { gameId: game.id, userId: player.id });
+  emitGamesUpdated();
+  emitGameUpdateToPlayers(game);
+  res.json(enrichGameForClient(game, getAuthUserId(req)));
+});
+
+// Move to another seat (pre-game): an empty seat or a bot's is taken at once, a player is asked first
+router.post('/:id/swap-seat', authenticateToken, (req, res) => {
+  const game = games.find(g => g.id === req.params.id);
+  if (!game) return res.status(404).json({ error: 'Game not found' });
+  if (game.status !== 'WAITING') return res.status(400).json({ error: 'Game already started' });
+  const userId = getAuthUserId(req);
+  const { seatIndex } = req.body;
+  const fromSeat = findSeat(game, userId);
+  if (fromSeat === -1) return res.status(403).json({ error: 'Only players at the table can change seats' });
+  if (typeof seatIndex !== 'number' || seatIndex < 0 || seatIndex > 3 || seatIndex === fromSeat) {
+    return res.status(400).json({ error: 'Invalid seat' });
+  }
+  const mover = game.players[fromSeat]!;
+  const target = game.players[seatIndex];
+  if (!target || target.type === 'bot') {
+    swapSeats(game, fromSeat, seatIndex);
+    sendSystemMessage(game, `${mover.username} moved to seat ${seatIndex + 1}.`);
+    return res.json(enrichGameForClient(game, userId));
+  }
+  // One open request per player; asking someone else replaces it
+  if (!game.swapRequests?.some(r => r.fromUserId === userId && r.toUserId === target.id)) {
+    game.swapRequests = [
+      ...(game.swapRequests ?? []).filter(r => r.fromUserId !== userId),
+      { fromUserId: userId, toUserId: target.id },
+    ];
+    checkpointGame(game);
+    emitGameUpdateToPlayers(game);
+    sendSystemMessage(game, `${mover.username} asked ${target.username} to swap seats.`);
+  }
+  res.json(enrichGameForClient(game, userId));
+});
+
+// Accept or decline a request to swap seats (only the player asked)
+router.post('/:id/swap-response', authenticateToken, (req, res) => {
+  const game = games.find(g => g.id === req.params.id);
+  if (!game) return res.status(404).json({ error: 'Game not found' });
+  if (game.status !== 'WAITING') return res.status(400).json({ error: 'Game already started' });
+  const userId = getAuthUserId(req);
+  const { fromUserId, accept } = req.body;
+  const request = game.swapRequests?.find(r => r.fromUserId === fromUserId && r.toUserId === userId);
+  if (!request) return res.status(404).json({ error: 'Swap request not found' });
+  game.swapRequests = game.swapRequests!.filter(r => r !== request);
+  const fromSeat = findSeat(game, fromUserId);
+  const toSeat = findSeat(game, userId);
+  const requester = game.players[fromSeat]!;
+  const responder = game.players[toSeat]!;
+  if (accept) {
+    swapSeats(game, fromSeat, toSeat);
+    sendSystemMessage(game, `${requester.username} and ${responder.username} swapped seats.`);
+  } else {
+    checkpointGame(game);
+    emitGameUpdateToPlayers(game);
+    sendSystemMessage(game, `${responder.username} declined to swap seats with ${requester.username}.`);
+  }
+  res.json(enrichGameForClient(game, userId));
 });
 
-// --- Basic Bot Engine ---
+// Swap any two seats, occupied or not (creator only, pre-game)
+router.post('/:id/arrange-seats', authenticateToken, (req, res) => {
+  const game = games.find(g => g.id === req.params.id);
+  if (!game) return res.status(404).json({ error: 'Game not found' });
+  if (game.status !== 'WAITING') return res.status(400).json({ error: 'Game already started' });
+  const userId = getAuthUserId(req);
+  if (game.creatorId !== userId) return res.status(403).json({ error: 'Only the table creator can arrange seats' });
+  const { fromSeat, toSeat } = req.body;
+  const isSeat = (seat: unknown): seat is number => typeof seat === 'number' && seat >= 0 && seat <= 3;
+  if (!isSeat(fromSeat) || !isSeat(toSeat) || fromSeat === toSeat || (!game.players[fromSeat] && !game.players[toSeat])) {
+    return res.status(400).json({ error: 'Invalid seats' });
+  }
+  swapSeats(game, fromSeat, toSeat);
+  sendSystemMessage(game, `The table creator swapped seats ${fromSeat + 1} and ${toSeat + 1}.`);
+  res.json(enrichGameForClient(game, userId));
+});
+
+// Confirm (or take back) being ready to start; once everyone is, the creator can start the game
+router.post('/:id/ready', authenticateToken, (req, res) => {
+  const game = games.find(g => g.id === req.params.id);
+  if (!game) return res.status(404).json({ error: 'Game not found' });
+  if (game.status !== 'WAITING') return res.status(400).json({ error: 'Game already started' });
+  const userId = getAuthUserId(req);
+  const seat = game.players[findSeat(game, userId)];
+  if (!seat || seat.type !== 'human') return res.status(403).json({ error: 'Only players at the table can get ready' });
+  const others = (game.readyPlayers ?? []).filter(id => id !== userId);
+  game.readyPlayers = req.body.ready === false ? others : [...others, userId];
+  checkpointGame(game);
+  emitGameUpdateToPlayers(game);
+  res.json(enrichGameForClient(game, userId));
+});
+
+// --- Bot turns ---
+// Bots wait a little before acting so the table can follow their moves
+const BOT_MIN_DELAY_MS = 800;
+const BOT_MAX_DELAY_MS = 1800;
+
+function getCurrentSeatIndex(game: Game): number | null {
+  if (game.status === 'BIDDING' && game.bidding) return game.bidding.currentBidderIndex;
+  if (game.status === 'PLAYING' && game.play) return game.play.currentPlayerIndex;
+  return null;
+}
+
 function botMakeMove(game: Game, seatIndex: number) {
   const bot = game.players[seatIndex];
   if (!bot || bot.type !== 'bot') return;
-  // Example: log bot action (replace with real logic)
-  console.log(`[BOT] ${bot.username} is making a move in game ${game.id}`);
-  // TODO: Implement actual game logic (bidding, playing cards, etc.)
-  // For now, just emit a dummy move event
-  io.to(game.id).emit('bot_move', { botId: bot.id, seatIndex });
+  // The table may have moved on (or the game ended) while the bot was thinking
+  if (!games.includes(game) || getCurrentSeatIndex(game) !== seatIndex) return;
+  const action = getBotAction(game, seatIndex);
+  if (!action) return;
+  const result = runGameAction(game, action);
+  if (!result.ok) {
+    console.error(`[BOT] ${bot.username} made an invalid move in game ${game.id}:`, result.error);
+  }
 }
 
 /**
- * Call this after every player move (bid, play card, etc.)
- * It will check if the next player is a bot and, if so, trigger their move.
+ * Call this after every player move (bid, play card, etc.) and whenever a hand
+ * is dealt. If the player to act is a bot, it makes its move after a short delay.
  */
-function advanceTurnOrBotMove(game: Game, nextSeatIndex: number) {
-  const nextPlayer = game.players[nextSeatIndex];
+export function advanceTurnOrBotMove(game: Game) {
+  clearTimeout(turnTimers.get(game.id));
+  turnTimers.delete(game.id);
+  const seatIndex = getCurrentSeatIndex(game);
+  if (seatIndex === null) return;
+  const nextPlayer = game.players[seatIndex];
   if (nextPlayer && nextPlayer.type === 'bot') {
-    botMakeMove(game, nextSeatIndex);
-  }
-}
-
-// --- Bidding socket event ---
-import { io as ioInstance } from '../index';
-if (ioInstance) {
-  ioInstance.on('connection', (socket: AuthenticatedSocket) => {
-    socket.on('make_bid', ({ gameId, userId, bid }) => {
-      const game = games.find(g => g.id === gameId);
-      if (!game || !game.bidding) return;
-      
-      const playerIndex = game.players.findIndex(p => p && p.id === userId);
-      if (playerIndex === -1) return;
-      
-      if (playerIndex !== game.bidding.currentBidderIndex) return; // Not their turn
-      if (game.bidding.bids[playerIndex] !== null) return; // Already bid
-      
-      // Store the bid
-      game.bidding.bids[playerIndex] = bid;
-      
-      // Find next player who hasn't bid
-      let next = (playerIndex + 1) % 4;
-      while (game.bidding.bids[next] !== null && next !== playerIndex) {
-        next = (next + 1) % 4;
-      }
-      
-      if (game.bidding.bids.every(b => b !== null)) {
-        // All bids in, move to play phase
-        if (!game.dealerIndex) {
-          socket.emit('error', { message: 'Invalid game state: no dealer assigned' });
-          return;
-        }
-        const firstPlayer = game.players[(game.dealerIndex + 1) % 4];
-        if (!firstPlayer) {
-          socket.emit('error', { message: 'Invalid game state' });
-          return;
-        }
-        
-        // --- Play phase state ---
-        game.play = {
-          currentPlayer: firstPlayer.id,
-          currentPlayerIndex: (game.dealerIndex + 1) % 4,
-          currentTrick: [],
-          tricks: [],
-          trickNumber: 0
-        };
-        
-        ioInstance.to(game.id).emit('bidding_complete', { bids: game.bidding.bids });
-        ioInstance.to(game.id).emit('play_start', {
-          currentPlayerIndex: game.play.currentPlayerIndex,
-          currentTrick: game.play.currentTrick,
-          trickNumber: game.play.trickNumber,
-        });
-      } else {
-        game.bidding.currentBidderIndex = next;
-        ioInstance.to(game.id).emit('bidding_update', {
-          currentBidderIndex: next,
-          bids: game.bidding.bids,
-        });
-      }
-    });
+    const delay = BOT_MIN_DELAY_MS + Math.random() * (BOT_MAX_DELAY_MS - BOT_MIN_DELAY_MS);
+    setTimeout(() => botMakeMove(game, seatIndex), delay);
+  } else if (nextPlayer && game.turnDeadline) {
+    // On a timed table the clock decides, and running it out costs a strike
+    turnTimers.set(game.id, setTimeout(() => {
+      turnTimers.delete(game.id);
+      expireTurn(game, seatIndex);
+    }, game.turnDeadline - Date.now()));
+  } else if (nextPlayer) {
+    // A human who sits on their turn too long gets a bot playing for them
+    turnTimers.set(game.id, setTimeout(() => {
+      turnTimers.delete(game.id);
+      if (!games.includes(game) || getCurrentSeatIndex(game) !== seatIndex) return;
+      standInBot(game, seatIndex, 'is away');
+    }, AFK_TIMEOUT_MS));
+  }
+}
 
-    // --- Play phase: play_card event ---
-    socket.on('play_card', ({ gameId, userId, card }) => {
-      const game = games.find(g => g.id === gameId);
-      if (!game || !game.play || !game.hands || !game.bidding) {
-        socket.emit('error', { message: 'Invalid game state' });
-        return;
-      }
-      
-      const playerIndex = game.players.findIndex(p => p && p.id === userId);
-      if (playerIndex === -1) {
-        socket.emit('error', { message: 'Player not found in game' });
-        return;
-      }
-      
-      if (playerIndex !== game.play.currentPlayerIndex) {
-        socket.emit('error', { message: 'Not your turn' });
-        return;
-      }
-      
-      // Validate card is in player's hand
-      const hand = game.hands[playerIndex];
-      if (!hand) {
-        socket.emit('error', { message: 'Invalid hand state' });
-        return;
-      }
-      
-      const cardIndex = hand.findIndex(c => c.suit === card.suit && c.rank === card.rank);
-      if (cardIndex === -1) {
-        socket.emit('error', { message: 'Card not in hand' });
-        return;
-      }
-      
-      // Remove card from hand and add to current trick
-      hand.splice(cardIndex, 1);
-      game.play.currentTrick.push({ ...card, playerIndex });
-      
-      // If trick is complete (4 cards)
-      if (game.play.currentTrick.length === 4) {
-        // Determine winner of the trick
-        const winnerIndex = determineTrickWinner(game.play.currentTrick);
-        if (winnerIndex === undefined) {
-          socket.emit('error', { message: 'Invalid trick state' });
-          return;
-        }
-        game.play.tricks.push({
-          cards: game.play.currentTrick,
-          winnerIndex,
-        });
-        game.play.currentTrick = [];
-        game.play.trickNumber += 1;
-        game.play.currentPlayerIndex = winnerIndex;
-        
-        // Emit trick complete
-        ioInstance.to(game.id).emit('trick_complete', {
-          trick: game.play.tricks[game.play.tricks.length - 1],
-          trickNumber: game.play.trickNumber,
-        });
-        
-        // If all tricks played, move to hand summary/scoring
-        if (game.play.trickNumber === 13) {
-          // --- Hand summary and scoring ---
-          const handSummary = calculatePartnersHandScore(game);
-          // Update running totals
-          game.team1TotalScore = (game.team1TotalScore || 0) + handSummary.team1Score;
-          game.team2TotalScore = (game.team2TotalScore || 0) + handSummary.team2Score;
-          game.team1Bags = (game.team1Bags || 0) + handSummary.team1Bags;
-          game.team2Bags = (game.team2Bags || 0) + handSummary.team2Bags;
-          
-          ioInstance.to(game.id).emit('hand_completed', {
-            ...handSummary,
-            team1TotalScore: game.team1TotalScore,
-            team2TotalScore: game.team2TotalScore,
-            team1Bags: game.team1Bags,
-            team2Bags: game.team2Bags,
-          });
-          
-          // --- Game over check ---
-          const winThreshold = 500, lossThreshold = -150;
-          if (
-            game.team1TotalScore >= winThreshold || game.team2TotalScore >= winThreshold ||
-            game.team1TotalScore <= lossThreshold || game.team2TotalScore <= lossThreshold
-          ) {
-            game.status = 'COMPLETED';
-            const winningTeam = game.team1TotalScore > game.team2TotalScore ? 1 : 2;
-            ioInstance.to(game.id).emit('game_over', {
-              team1Score: game.team1TotalScore,
-              team2Score: game.team2TotalScore,
-              winningTeam,
-            });
-            // Update stats and coins in DB
-            updateStatsAndCoins(game, winningTeam).catch(err => {
-              console.error('Failed to update stats/coins:', err);
-            });
-          }
-          return;
-        } else {
-          // Advance to next player
-          game.play.currentPlayerIndex = (game.play.currentPlayerIndex + 1) % 4;
-        }
-      } else {
-        // Advance to next player
-        game.play.currentPlayerIndex = (game.play.currentPlayerIndex + 1) % 4;
-      }
-      
-      // Emit play update
-      ioInstance.to(game.id).emit('play_update', {
-        currentPlayerIndex: game.play.currentPlayerIndex,
-        currentTrick: game.play.currentTrick,
-        hands: game.hands.map((h, i) => ({
-          playerId: game.players[i]?.id,
-          handCount: h.length,
-        })),
-      });
-    });
+// --- Turn timers ---
+// Running out the clock this many times forfeits the seat to a bot
+const MAX_TURN_STRIKES = 3;
 
-    socket.on('leave_game', ({ gameId, userId }) => {
-      if (!socket.isAuthenticated || !socket.userId || socket.userId !== userId) {
-        console.log('Unauthorized leave_game attempt');
-        socket.emit('error', { message: 'Not authorized' });
-        return;
-      }
+// Starts a full clock for whoever is to act, on tables with a turn timer
+function resetTurnClock(game: Game) {
+  const limit = game.rules.turnTimeLimit;
+  game.turnDeadline = limit && getCurrentSeatIndex(game) !== null ? Date.now() + limit * 1000 : undefined;
+}
 
-      try {
-        const game = games.find((g: Game) => g.id === gameId);
-        if (!game) {
-          console.log(`Game ${gameId} not found`);
-          socket.emit('error', { message: 'Game not found' });
-          return;
-        }
-
-        // Remove the player from the game
-        const playerIdx = game.players.findIndex((p: GamePlayer | null) => p && p.id === userId);
-        if (playerIdx !== -1) {
-          game.players[playerIdx] = null;
-          socket.leave(gameId);
-          // Emit game_update to the game room for real-time sync
-          io.to(gameId).emit('game_update', enrichGameForClient(game));
-          io.emit('games_updated', games);
-          console.log(`User ${userId} left game ${gameId}`);
-        }
-
-        // Check if there are any human players left
-        const hasHumanPlayers = game.players.some((p: GamePlayer | null) => p && p.type === 'human');
-        
-        // If no human players remain, remove the game
-        if (!hasHumanPlayers) {
-          const gameIdx = games.findIndex((g: Game) => g.id === gameId);
-          if (gameIdx !== -1) {
-            games.splice(gameIdx, 1);
-            io.emit('games_updated', games);
-            console.log(`Game ${gameId} removed (no human players left)`);
-          }
-        }
-      } catch (error) {
-        console.error('Error in leave_game:', error);
-        socket.emit('error', { message: 'Internal server error' });
-      }
-    });
+// Plays the lowest legal move for a player whose clock ran out, and forfeits repeat offenders
+function expireTurn(game: Game, seatIndex: number) {
+  if (!games.includes(game) || getCurrentSeatIndex(game) !== seatIndex) return;
+  const player = game.players[seatIndex];
+  if (!player || player.type !== 'human') return;
+  const strikes = game.turnStrikes ?? [0, 0, 0, 0];
+  strikes[seatIndex] += 1;
+  game.turnStrikes = strikes;
+  if (strikes[seatIndex] >= MAX_TURN_STRIKES) {
+    forfeitSeat(game, seatIndex);
+    return;
+  }
+  sendSystemMessage(game, `${player.username} ran out of time (strike ${strikes[seatIndex]} of ${MAX_TURN_STRIKES}).`);
+  // A player still offered blind nil looks at their cards first, then bids
+  let action = getTimeoutAction(game, seatIndex);
+  if (action?.type === 'REVEAL_HAND') {
+    runGameAction(game, action);
+    action = getTimeoutAction(game, seatIndex);
+  }
+  if (!action) return;
+  const result = runGameAction(game, action);
+  if (!result.ok) {
+    console.error(`Timeout move for ${player.id} rejected in game ${game.id}:`, result.error);
+  }
+}
+
+/**
+ * Takes the seat from a player who kept running out the clock. A bot plays
+ * it out for good and the game counts as a loss for them.
+ */
+function forfeitSeat(game: Game, seatIndex: number) {
+  const player = game.players[seatIndex]!;
+  console.log(`User ${player.id} forfeited game ${game.id} after ${MAX_TURN_STRIKES} timeouts`);
+  clearSeatHold(game.id, player.id);
+  game.turnStrikes![seatIndex] = 0;
+  recordGameResult(game, player.id, false).catch(err => {
+    console.error('Failed to record forfeit for user', player.id, err);
   });
+  io.to(game.id).emit('player_forfeited', { gameId: game.id, seatIndex, userId: player.id });
+  replaceSeat(game, seatIndex, createBotPlayer(seatIndex, 'medium'));
+  sendSystemMessage(game, `${player.username} ran out of time ${MAX_TURN_STRIKES} times and forfeited. A bot takes their seat.`);
+  closeIfNoHumans(game);
+}
+
+// --- Dropped connections and stand-in bots ---
+// A player whose connection drops keeps their seat this long before giving it up
+const SEAT_HOLD_MS = Number(process.env.SEAT_HOLD_MS) || 60000;
+// A bot plays for a dropped player after this long, and for one who doesn't act on their turn
+const BOT_TAKEOVER_MS = Number(process.env.BOT_TAKEOVER_MS) || 20000;
+const AFK_TIMEOUT_MS = Number(process.env.AFK_TIMEOUT_MS) || 60000;
+const seatHolds = new Map<string, NodeJS.Timeout>();
+const takeoverTimers = new Map<string, NodeJS.Timeout>();
+// The pending AFK timer or turn clock of each game
+const turnTimers = new Map<string, NodeJS.Timeout>();
+
+function getSeatHoldKey(gameId: string, userId: string) {
+  return `${gameId}:${userId}`;
+}
+
+function clearSeatHold(gameId: string, userId: string) {
+  const key = getSeatHoldKey(gameId, userId);
+  clearTimeout(seatHolds.get(key));
+  clearTimeout(takeoverTimers.get(key));
+  seatHolds.delete(key);
+  takeoverTimers.delete(key);
+}
+
+// The user's seat, whether they sit in it or a bot is standing in for them
+function findSeat(game: Game, userId: string): number {
+  return game.players.findIndex(p => p && (p.id === userId || p.standingInFor?.id === userId));
+}
+
+// Seated, stood in for by a bot, or watching
+export function isAtTable(game: Game, userId: string): boolean {
+  return findSeat(game, userId) !== -1 || isSpectating(game, userId);
+}
+
+// The lobby list never carries hands, and shows an unlisted table only to those at it
+function getLobbyGames(userId?: string) {
+  return games
+    .filter(game => game.visibility !== 'UNLISTED' || (!!userId && isAtTable(game, userId)))
+    .map(game => enrichGameForClient(game));
 }
 
-// --- Helper: Determine Trick Winner ---
-function determineTrickWinner(trick: Card[]): number {
-  if (!trick.length) {
-    throw new Error('Cannot determine winner of empty trick');
+export function emitGamesUpdated() {
+  for (const socket of io.sockets.sockets.values()) {
+    socket.emit('games_updated', getLobbyGames((socket as AuthenticatedSocket).userId));
   }
-  let winningCard = trick[0];
-  for (const card of trick) {
-    if (
-      (card.suit === 'S' && winningCard.suit !== 'S') ||
-      (card.suit === winningCard.suit && getCardValue(card.rank) > getCardValue(winningCard.rank))
-    ) {
-      winningCard = card;
-    }
+}
+
+/**
+ * Lets a user into a private table with its invite code or password, and
+ * remembers them so a refresh or reconnect doesn't ask again. Returns why
+ * they were turned away, or null.
+ */
+export async function checkTableAccess(
+  game: Game,
+  userId: string,
+  { inviteCode, password }: { inviteCode?: unknown; password?: unknown } = {}
+): Promise<string | null> {
+  if (!game.visibility || game.visibility === 'PUBLIC') return null;
+  if (game.allowedUserIds?.includes(userId)) return null;
+  const allowed = (typeof inviteCode === 'string' && inviteCode === game.inviteCode)
+    || (game.visibility === 'PASSWORD' && typeof password === 'string' && !!game.passwordHash
+      && await bcrypt.compare(password, game.passwordHash));
+  if (!allowed) return game.visibility === 'PASSWORD' ? 'Wrong password for this table' : 'This table is invite only';
+  game.allowedUserIds = [...(game.allowedUserIds ?? []), userId];
+  return null;
+}
+
+// System messages go to the spectators as well as the players
+export function sendSystemMessage(game: Game, message: string) {
+  io.to(game.id).to(getSpectatorRoom(game.id)).emit('chat_message', {
+    gameId: game.id,
+    message: {
+      id: `system-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+      userId: 'system',
+      userName: 'System',
+      message,
+      timestamp: Date.now(),
+      isGameMessage: true,
+    },
+  });
+}
+
+// --- Spectators ---
+// Spectators get a room of their own, so nothing sent to the players' room reaches them
+export function getSpectatorRoom(gameId: string) {
+  return `${gameId}:spectators`;
+}
+
+export function isSpectating(game: Game, userId: string): boolean {
+  return game.spectators.some(s => s.id === userId);
+}
+
+/** Adds a spectator to the table, or returns why the table won't take them. */
+export function addSpectator(game: Game, spectator: GamePlayer): string | null {
+  const limit = game.rules.maxSpectators ?? DEFAULT_MAX_SPECTATORS;
+  if (limit === 0) return 'This table does not allow spectators';
+  if (game.spectators.length >= limit) return 'This table has no room for more spectators';
+  game.spectators.push(spectator);
+  return null;
+}
+
+export function removeSpectator(game: Game, userId: string): boolean {
+  const index = game.spectators.findIndex(s => s.id === userId);
+  if (index === -1) return false;
+  game.spectators.splice(index, 1);
+  return true;
+}
+
+/** Takes the user off every table they were watching, after their last connection dropped. */
+export function stopSpectating(userId: string) {
+  for (const game of games) {
+    if (removeSpectator(game, userId)) emitGameUpdateToPlayers(game);
   }
-  return winningCard.playerIndex ?? 0; // Provide default value if undefined
 }
 
-function getCardValue(rank: Rank): number {
-  const rankMap: Record<Rank, number> = {
-    '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8, '9': 9, '10': 10,
-    'J': 11, 'Q': 12, 'K': 13, 'A': 14
-  };
-  return rankMap[rank];
-}
-
-// --- Scoring helper ---
-function calculatePartnersHandScore(game: Game) {
-  if (!game.bidding || !game.play) {
-    throw new Error('Invalid game state for scoring');
-  }
-  const team1 = [0, 2];
-  const team2 = [1, 3];
-  let team1Bid = 0, team2Bid = 0, team1Tricks = 0, team2Tricks = 0;
-  let team1Bags = 0, team2Bags = 0;
-  let team1Score = 0, team2Score = 0;
-  // Count tricks per player
-  const tricksPerPlayer = [0, 0, 0, 0];
-  for (const trick of game.play.tricks) {
-    tricksPerPlayer[trick.winnerIndex]++;
-  }
-  // Calculate team bids and tricks
-  for (const i of team1) {
-    const bid = game.bidding.bids[i] ?? 0; // Default to 0 if bid is null
-    team1Bid += bid;
-    team1Tricks += tricksPerPlayer[i];
-  }
-  for (const i of team2) {
-    const bid = game.bidding.bids[i] ?? 0; // Default to 0 if bid is null
-    team2Bid += bid;
-    team2Tricks += tricksPerPlayer[i];
-  }
-  // Team 1 scoring
-  if (team1Tricks >= team1Bid) {
-    team1Score += team1Bid * 10;
-    team1Bags = team1Tricks - team1Bid;
-    team1Score += team1Bags;
+/** Puts a player in a seat mid-game and lets the table carry on with them. */
+function replaceSeat(game: Game, seatIndex: number, player: GamePlayer) {
+  // The bid and tricks so far belong to the seat, not to whoever sits in it
+  const previous = game.players[seatIndex];
+  game.players[seatIndex] = previous
+    ? { ...player, bid: previous.bid, tricks: previous.tricks, isDealer: previous.isDealer }
+    : player;
+  // The engine tracks who is to act by seat; keep the id shown to clients in step
+  if (game.bidding) game.bidding.currentPlayer = game.players[game.bidding.currentBidderIndex]?.id ?? '';
+  if (game.play) game.play.currentPlayer = game.players[game.play.currentPlayerIndex]?.id ?? '';
+  // Whoever takes over the seat on its turn gets a full clock
+  if (getCurrentSeatIndex(game) === seatIndex) resetTurnClock(game);
+  checkpointGame(game);
+  emitGamesUpdated();
+  emitGameUpdateToPlayers(game);
+  // The seat may be the one the table is waiting on
+  advanceTurnOrBotMove(game);
+}
+
+// A bot plays the seat's hand until its player comes back
+function standInBot(game: Game, seatIndex: number, reason: string) {
+  const player = game.players[seatIndex];
+  if (!player || player.type !== 'human' || (game.status !== 'BIDDING' && game.status !== 'PLAYING')) return;
+  console.log(`Bot standing in for ${player.id} in game ${game.id}: ${reason}`);
+  replaceSeat(game, seatIndex, { ...createBotPlayer(seatIndex, 'medium'), standingInFor: player });
+  sendSystemMessage(game, `${player.username} ${reason}. A bot is playing for them until they return.`);
+}
+
+// Seats a bot is standing in on still belong to a human who may come back
+function closeIfNoHumans(game: Game) {
+  if (game.players.some(p => p && (p.type === 'human' || p.standingInFor))) return;
+  const gameIdx = games.indexOf(game);
+  if (gameIdx === -1) return;
+  games.splice(gameIdx, 1);
+  clearTimeout(turnTimers.get(game.id));
+  turnTimers.delete(game.id);
+  clearSpectatorViews(game.id);
+  cancelGame(game.id);
+  // A decided game's pot belongs to its winners, so a payout that failed is retried rather than refunded
+  const release = game.status === 'COMPLETED' ? settleGame(game) : refundBuyIns(game);
+  release.then(emitCoinBalances).catch(err => {
+    console.error(`Failed to release buy-ins for game ${game.id}:`, err);
+  });
+  console.log(`Game ${game.id} removed (no human players left)`);
+}
+
+// A table waiting to start needs someone who can start it once its creator has gone
+function passCreatorRole(game: Game, leavingUserId: string) {
+  if (game.status !== 'WAITING' || game.creatorId !== leavingUserId) return;
+  const next = game.players.find(p => p && p.type === 'human' && p.id !== leavingUserId);
+  if (next) game.creatorId = next.id;
+}
+
+// --- Seating before the start ---
+// Any change of who sits where asks everyone to confirm again
+export function seatingChanged(game: Game) {
+  game.readyPlayers = [];
+  game.swapRequests = (game.swapRequests ?? []).filter(r =>
+    findSeat(game, r.fromUserId) !== -1 && findSeat(game, r.toUserId) !== -1
+  );
+}
+
+// Trades two seats, either of which may be empty; open requests from or to the movers lapse
+function swapSeats(game: Game, a: number, b: number) {
+  const first = game.players[a];
+  const second = game.players[b];
+  game.players[a] = second ? { ...second, position: a } : null;
+  game.players[b] = first ? { ...first, position: b } : null;
+  const moved = [first?.id, second?.id];
+  game.swapRequests = (game.swapRequests ?? []).filter(r => !moved.includes(r.fromUserId) && !moved.includes(r.toUserId));
+  seatingChanged(game);
+  checkpointGame(game);
+  emitGamesUpdated();
+  emitGameUpdateToPlayers(game);
+}
+
+/** Why the table can't start yet, or null once every seat is filled and every human is ready. */
+export function getStartError(game: Game): string | null {
+  if (game.players.some(p => !p)) return 'Every seat must be filled to start';
+  const notReady = game.players.filter(p => p && p.type === 'human' && !game.readyPlayers?.includes(p.id));
+  if (notReady.length > 0) return `Waiting for ${notReady.map(p => p!.username).join(', ')} to be ready`;
+  return null;
+}
+
+/**
+ * Takes a user out of a game for good. A bot standing in for them keeps the
+ * seat; otherwise it is freed. The table closes once no humans are left.
+ */
+export function leaveSeat(game: Game, userId: string) {
+  const seatIndex = findSeat(game, userId);
+  if (seatIndex === -1) return;
+  clearSeatHold(game.id, userId);
+  const seat = game.players[seatIndex]!;
+  const standIn = seat.standingInFor;
+  if (standIn) {
+    delete seat.standingInFor;
   } else {
-    team1Score -= team1Bid * 10;
-    team1Bags = 0;
-  }
-  // Team 2 scoring
-  if (team2Tricks >= team2Bid) {
-    team2Score += team2Bid * 10;
-    team2Bags = team2Tricks - team2Bid;
-    team2Score += team2Bags;
+    game.players[seatIndex] = null;
+    seatingChanged(game);
+  }
+  passCreatorRole(game, userId);
+  // A finished game's saved seats are what its replay shows
+  if (game.status !== 'COMPLETED') checkpointGame(game);
+  emitGameUpdateToPlayers(game);
+  if (standIn) sendSystemMessage(game, `${standIn.username} left. The bot keeps their seat.`);
+  console.log(`User ${userId} left game ${game.id}`);
+  closeIfNoHumans(game);
+  emitGamesUpdated();
+}
+
+/**
+ * Shows the player as reconnecting and keeps their seat for SEAT_HOLD_MS,
+ * with a bot playing for them after BOT_TAKEOVER_MS. If they haven't resumed
+ * by the end of the hold the seat is given up as if they had left.
+ */
+export function holdSeat(game: Game, userId: string) {
+  const seatIndex = findSeat(game, userId);
+  const seat = game.players[seatIndex];
+  if (!seat || game.status === 'COMPLETED') return;
+  if (seat.type !== 'human' && !seat.standingInFor) return;
+  const key = getSeatHoldKey(game.id, userId);
+  clearSeatHold(game.id, userId);
+  seatHolds.set(key, setTimeout(() => {
+    seatHolds.delete(key);
+    if (!games.includes(game)) return;
+    console.log(`Seat hold for ${userId} in game ${game.id} expired`);
+    leaveSeat(game, userId);
+  }, SEAT_HOLD_MS));
+  if (seat.type === 'human') {
+    seat.disconnectedAt = Date.now();
+    takeoverTimers.set(key, setTimeout(() => {
+      takeoverTimers.delete(key);
+      if (!games.includes(game)) return;
+      standInBot(game, findSeat(game, userId), 'lost connection');
+    }, BOT_TAKEOVER_MS));
+    emitGameUpdateToPlayers(game);
+  }
+}
+
+/** Holds every seat the user has, after their last connection dropped. */
+export function holdSeatsForUser(userId: string) {
+  for (const game of games) {
+    holdSeat(game, userId);
+  }
+}
+
+/**
+ * Takes a reconnected (or returning) player off hold and gives them back a
+ * seat a bot was playing. Returns false when they no longer have a seat.
+ */
+export function resumeSeat(game: Game, userId: string): boolean {
+  const seatIndex = findSeat(game, userId);
+  const seat = game.players[seatIndex];
+  if (!seat) return false;
+  clearSeatHold(game.id, userId);
+  if (seat.standingInFor) {
+    const player = seat.standingInFor;
+    delete player.disconnectedAt;
+    replaceSeat(game, seatIndex, player);
+    sendSystemMessage(game, `${player.username} is back and has their seat again.`);
   } else {
-    team2Score -= team2Bid * 10;
-    team2Bags = 0;
-  }
-  // Nil and Blind Nil
-  for (const i of [...team1, ...team2]) {
-    const bid = game.bidding.bids[i];
-    const tricks = tricksPerPlayer[i];
-    if (bid === 0) { // Nil
-      if (tricks === 0) {
-        if (team1.includes(i)) team1Score += 100;
-        else team2Score += 100;
-      } else {
-        if (team1.includes(i)) team1Score -= 100;
-        else team2Score -= 100;
-        // Bags for failed nil go to team
-        if (team1.includes(i)) team1Bags += tricks;
-        else team2Bags += tricks;
-      }
-    } else if (bid === -1) { // Blind Nil (use -1 for blind nil)
-      if (tricks === 0) {
-        if (team1.includes(i)) team1Score += 200;
-        else team2Score += 200;
-      } else {
-        if (team1.includes(i)) team1Score -= 200;
-        else team2Score -= 200;
-        // Bags for failed blind nil go to team
-        if (team1.includes(i)) team1Bags += tricks;
-        else team2Bags += tricks;
-      }
+    delete seat.disconnectedAt;
+  }
+  return true;
+}
+
+/**
+ * Reloads the tables saved before the last restart and resumes them: bots to
+ * act take their turn, and a table paused between hands deals the next one.
+ * Nobody is connected yet, so every human seat starts out held.
+ */
+export async function restoreGames() {
+  const saved = await loadActiveGames();
+  for (const game of saved) {
+    if (games.some(g => g.id === game.id)) continue;
+    games.push(game);
+    // Nobody is connected yet, spectators included
+    game.spectators = [];
+    // A seat a bot is standing in on is held for the human it belongs to
+    for (const player of game.players) {
+      if (player) holdSeat(game, player.standingInFor?.id ?? player.id);
+    }
+    // The saved deadline passed while the server was down
+    if (game.turnDeadline) resetTurnClock(game);
+    if (game.status === 'PLAYING' && game.play?.trickNumber === 13) {
+      scheduleNewHand(game);
+    } else {
+      advanceTurnOrBotMove(game);
     }
   }
-  // Bag penalty
-  if (team1Bags >= 10) {
-    team1Score -= 100;
-    team1Bags -= 10;
+  if (saved.length > 0) console.log(`Restored ${saved.length} saved games`);
+}
+
+// --- Gameplay socket events ---
+// Runs an action through the rules engine and, when legal, broadcasts the resulting events
+function runGameAction(game: Game, action: GameAction): ActionResult {
+  const result = applyAction(game, action);
+  if (!result.ok) return result;
+  Object.assign(game, result.game);
+  const handCompleted = result.events.some(e => e.type === 'hand_completed');
+  // The next player's clock starts now; nobody is on the clock between hands
+  if (handCompleted) {
+    // A timer left over from the last turn must not fire against the next hand
+    clearTimeout(turnTimers.get(game.id));
+    turnTimers.delete(game.id);
+    game.turnDeadline = undefined;
+  } else {
+    resetTurnClock(game);
   }
-  if (team2Bags >= 10) {
-    team2Score -= 100;
-    team2Bags -= 10;
+  // Save after every bid and every finished trick; a half-played trick is cheap to lose
+  if (action.type !== 'PLAY_CARD' || result.events.some(e => e.type === 'trick_complete')) {
+    checkpointGame(game);
   }
-  return {
-    team1Score,
-    team2Score,
-    team1Bags,
-    team2Bags,
-    tricksPerPlayer,
-  };
+  for (const { type, payload } of result.events) {
+    // Turn changes carry the new deadline so clients can run the clock
+    const isTurnEvent = type === 'bidding_update' || type === 'play_start' || type === 'play_update';
+    io.to(game.id).emit(type, isTurnEvent ? { ...payload, turnDeadline: game.turnDeadline } : payload);
+    if (type === 'hand_completed') {
+      recordHand(game, payload);
+    }
+    if (type === 'game_over') {
+      // Update stats and coins in DB
+      updateStatsAndCoins(game).catch(err => {
+        console.error('Failed to update stats/coins:', err);
+      });
+    }
+  }
+  emitGameUpdateToPlayers(game);
+  if (handCompleted) {
+    if (game.status !== 'COMPLETED') scheduleNewHand(game);
+  } else {
+    advanceTurnOrBotMove(game);
+  }
+  return result;
+}
+
+// Runs a player's action and reports a rejection back to that player only
+function dispatchGameAction(socket: AuthenticatedSocket, game: Game, action: GameAction) {
+  const result = runGameAction(game, action);
+  if (result.ok) return;
+  if (result.code === 'INVALID_STATE') {
+    socket.emit('error', { message: result.error });
+  } else {
+    // Rules violation: tell the acting player exactly what was rejected and why
+    socket.emit('illegal_move', {
+      gameId: game.id,
+      action: action.type,
+      code: result.code,
+      message: result.error,
+      ...(action.type === 'PLAY_CARD' && { card: action.card }),
+      ...(action.type === 'MAKE_BID' && { bid: action.bid }),
+    });
+  }
+}
+
+/**
+ * Registers the in-game socket handlers. Called from the connection handler in
+ * index.ts so the handlers are attached once io exists.
+ */
+export function registerGameSocketHandlers(socket: AuthenticatedSocket) {
+  socket.on('make_bid', ({ gameId, bid }) => {
+    const seat = getSocketSeat(socket, gameId);
+    if (!seat) return;
+    const { game, seatIndex } = seat;
+    // Forced bids (Mirror) may be sent without a number; fill it from the hand
+    const forcedBid = getForcedBid(game, seatIndex);
+    dispatchGameAction(socket, game, {
+      type: 'MAKE_BID',
+      seatIndex,
+      bid: bid === undefined || bid === null ? forcedBid ?? bid : bid,
+    });
+  });
+
+  // Pass on blind nil and look at your cards
+  socket.on('reveal_hand', ({ gameId }) => {
+    const seat = getSocketSeat(socket, gameId);
+    if (!seat) return;
+    dispatchGameAction(socket, seat.game, { type: 'REVEAL_HAND', seatIndex: seat.seatIndex });
+  });
+
+  socket.on('play_card', ({ gameId, card }) => {
+    const seat = getSocketSeat(socket, gameId);
+    if (!seat) return;
+    dispatchGameAction(socket, seat.game, { type: 'PLAY_CARD', seatIndex: seat.seatIndex, card });
+  });
+}
+
+// The seat of the socket's own user; whoever the payload names is ignored
+function getSocketSeat(socket: AuthenticatedSocket, gameId: string): { game: Game; seatIndex: number } | null {
+  const game = games.find(g => g.id === gameId);
+  if (!game) {
+    socket.emit('error', { message: 'Game not found' });
+    return null;
+  }
+  const seatIndex = game.players.findIndex(p => p && p.id === socket.userId);
+  if (!socket.userId || seatIndex === -1) {
+    socket.emit('error', { message: 'You are not seated at this table' });
+    return null;
+  }
+  return { game, seatIndex };
 }
 
 // --- Stats and coins update helper ---
-async function updateStatsAndCoins(game: Game, winningTeam: number) {
+// Counts a finished (or forfeited) game in the player's overall and per-gimmick stats
+async function recordGameResult(game: Game, userId: string, isWinner: boolean) {
+  await prisma.userStats.update({
+    where: { userId },
+    data: {
+      gamesPlayed: { increment: 1 },
+      gamesWon: { increment: isWinner ? 1 : 0 }
+    }
+  });
+  if (game.rules.gimmickType) {
+    await prisma.userGameStats.upsert({
+      where: { userId_gimmickType: { userId, gimmickType: game.rules.gimmickType } },
+      create: { userId, gimmickType: game.rules.gimmickType, gamesPlayed: 1, gamesWon: isWinner ? 1 : 0 },
+      update: {
+        gamesPlayed: { increment: 1 },
+        gamesWon: { increment: isWinner ? 1 : 0 }
+      }
+    });
+  }
+}
+
+async function updateStatsAndCoins(game: Game) {
+  // Pay out first; the pot is settled once, whatever happens to the stats
+  try {
+    emitCoinBalances(await settleGame(game));
+  } catch (err) {
+    console.error(`Failed to settle coins for game ${game.id}:`, err);
+  }
   for (let i = 0; i < 4; i++) {
-    const player = game.players[i];
-    if (!player || player.type !== 'human') continue;
+    // A player a bot was standing in for still gets the result of their seat
+    const seat = game.players[i];
+    const player = seat?.type === 'human' ? seat : seat?.standingInFor;
+    if (!player) continue;
     const userId = player.id;
     if (!userId) continue; // Skip if no user ID
-    const isWinner = (winningTeam === 1 && (i === 0 || i === 2)) || (winningTeam === 2 && (i === 1 || i === 3));
+    const isWinner = isWinningSeat(game, i);
     try {
-      // Update overall stats
-      const stats = await prisma.userStats.update({
-        where: { userId },
-        data: {
-          gamesPlayed: { increment: 1 },
-          gamesWon: { increment: isWinner ? 1 : 0 }
-        }
-      });
+      await recordGameResult(game, userId, isWinner);
     } catch (err) {
-      console.error('Failed to update stats/coins for user', userId, err);
+      console.error('Failed to update stats for user', userId, err);
     }
   }
 }
 
 // Helper to enrich game object for client
-function enrichGameForClient(game: Game): Game {
-  if (!game) return game;
-  const hands = game.hands || [];
-  const dealerIndex = game.dealerIndex;
-  return {
-    ...game,
-    players: (game.players || []).map((p: GamePlayer | null, i: number) => {
-      if (!p) return null;
-      return {
-        ...p,
-        hand: hands[i] || [],
-        isDealer: dealerIndex !== undefined ? i === dealerIndex : !!p.isDealer,
-      };
-    })
-  };
-}
-
 export default router; 
\ No newline at end of file
@@ -1,12 +1,14 @@
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { io } from '../index';
+import { authenticateToken, getAuthUserId } from '../middleware/auth.middleware';
 const router = Router();
 const prisma = new PrismaClient();
 
 // Add Friend
-router.post('/friends/add', async (req, res) => {
-  const { userId, friendId } = req.body;
+router.post('/friends/add', authenticateToken, async (req, res) => {
+  const userId = getAuthUserId(req);
+  const { friendId } = req.body;
   if (userId === friendId) return res.status(400).json({ error: "Cannot add yourself as a friend." });
   try {
     await prisma.friend.create({
@@ -31,8 +33,9 @@ router.post('/friends/add', async (req, res) => {
 });
 
 // Remove Friend
-router.post('/friends/remove', async (req, res) => {
-  const { userId, friendId } = req.body;
+router.post('/friends/remove', authenticateToken, async (req, res) => {
+  const userId = getAuthUserId(req);
+  const { friendId } = req.body;
   try {
     await prisma.friend.delete({
       where: { userId_friendId: { userId, friendId } }
@@ -50,8 +53,9 @@ router.post('/friends/remove', async (req, res) => {
 });
 
 // Block User
-router.post('/block', async (req, res) => {
-  const { userId, blockId } = req.body;
+router.post('/block', authenticateToken, async (req, res) => {
+  const userId = getAuthUserId(req);
+  const { blockId } = req.body;
   if (userId === blockId) return res.status(400).json({ error: "Cannot block yourself." });
   // Remove from friends if currently a friend
   await prisma.friend.deleteMany({ where: { userId, friendId: blockId } });
@@ -66,8 +70,9 @@ router.post('/block', async (req, res) => {
 });
 
 // Unblock User
-router.post('/unblock', async (req, res) => {
-  const { userId, blockId } = req.body;
+router.post('/unblock', authenticateToken, async (req, res) => {
+  const userId = getAuthUserId(req);
+  const { blockId } = req.body;
   await prisma.blockedUser.deleteMany({
     where: { userId, blockedId: blockId }
   });
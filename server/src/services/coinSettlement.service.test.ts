@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Game } from '../types/game';
+import { makeGame } from '../engine/testing';
+import { collectBuyIns, refundBuyIns, settleGame } from './coinSettlement.service';
+
+// An in-memory user table behind the Prisma calls the settlement makes; a transaction runs against it directly
+const db = vi.hoisted(() => {
+  const coins = new Map<string, number>();
+  const balances = (ids: string[]) => ids.filter(id => coins.has(id)).map(id => ({ id, coins: coins.get(id)! }));
+  const user = {
+    findMany: vi.fn(async ({ where }: { where: { id: { in: string[] } } }) => balances(where.id.in)),
+    update: vi.fn(async ({ where, data }: { where: { id: string }; data: { coins: { increment: number } } }) => {
+      coins.set(where.id, coins.get(where.id)! + data.coins.increment);
+    }),
+    updateMany: vi.fn(async ({ where, data }: {
+      where: { id: string; coins: { gte: number } };
+      data: { coins: { decrement: number } };
+    }) => {
+      if ((coins.get(where.id) ?? 0) < where.coins.gte) return { count: 0 };
+      coins.set(where.id, coins.get(where.id)! - data.coins.decrement);
+      return { count: 1 };
+    }),
+  };
+  const $transaction = vi.fn(async (run: (tx: unknown) => Promise<unknown>) => run({ user }));
+  return { coins, user, $transaction };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => ({ user: db.user, $transaction: db.$transaction })),
+}));
+
+const BUY_IN = 100000;
+// Four buy-ins less the default 10% rake
+const POT = 360000;
+
+// A table of four humans, p0 to p3, whose buy-ins are already held
+function heldGame(overrides: Partial<Game> = {}): Game {
+  return makeGame({}, { buyIn: BUY_IN, status: 'COMPLETED', buyInsHeld: ['p0', 'p1', 'p2', 'p3'], ...overrides });
+}
+
+const changes = (balances: { userId: string; change: number }[]) =>
+  Object.fromEntries(balances.map(b => [b.userId, b.change]));
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  db.coins.clear();
+  ['p0', 'p1', 'p2', 'p3'].forEach(id => db.coins.set(id, 500000));
+});
+
+describe('collectBuyIns', () => {
+  it('takes the buy-in from every human and holds it on the game', async () => {
+    const game = makeGame({}, { buyIn: BUY_IN });
+    const result = await collectBuyIns(game);
+    expect(result.ok).toBe(true);
+    expect(game.buyInsHeld).toEqual(['p0', 'p1', 'p2', 'p3']);
+    expect(db.coins.get('p0')).toBe(400000);
+  });
+
+  it('charges nobody when anyone is short', async () => {
+    db.coins.set('p3', 50000);
+    const game = makeGame({}, { buyIn: BUY_IN });
+    expect(await collectBuyIns(game)).toEqual({ ok: false, error: 'Not enough coins for the buy-in: P3' });
+    expect(game.buyInsHeld).toBeUndefined();
+    expect(db.coins.get('p0')).toBe(500000);
+  });
+
+  it('refuses a second collection while the first is running', async () => {
+    const game = makeGame({}, { buyIn: BUY_IN });
+    const [first, second] = await Promise.all([collectBuyIns(game), collectBuyIns(game)]);
+    expect(first.ok).toBe(true);
+    expect(second.ok).toBe(false);
+    expect(db.coins.get('p0')).toBe(400000);
+  });
+});
+
+describe('settleGame', () => {
+  it('splits the pot evenly between the winning partners', async () => {
+    const game = heldGame({ winningTeam: 'team1' });
+    expect(changes(await settleGame(game))).toEqual({ p0: POT / 2, p2: POT / 2 });
+    expect(game.buyInsHeld).toBeUndefined();
+  });
+
+  it('pays solo games 70/30 to the top two finishers', async () => {
+    const game = heldGame({ gameMode: 'SOLO', rules: { ...heldGame().rules, gameType: 'SOLO' }, placements: [3, 1, 0, 2] });
+    expect(changes(await settleGame(game))).toEqual({ p3: 252000, p1: 108000 });
+  });
+
+  it('keeps the rake for the house', async () => {
+    const balances = await settleGame(heldGame({ winningTeam: 'team2' }));
+    expect(balances.reduce((sum, b) => sum + b.change, 0)).toBe(BUY_IN * 4 - 40000);
+  });
+
+  it('pays a seat a bot stood in on to the human it belongs to', async () => {
+    const game = heldGame({ winningTeam: 'team1' });
+    game.players[2] = { id: 'bot-2', username: 'Bot', avatar: null, type: 'bot', position: 2, standingInFor: game.players[2]! };
+    expect(changes(await settleGame(game))).toEqual({ p0: POT / 2, p2: POT / 2 });
+  });
+
+  it("leaves a forfeited seat's share with the house", async () => {
+    const game = heldGame({ winningTeam: 'team1' });
+    game.players[2] = { id: 'bot-2', username: 'Bot', avatar: null, type: 'bot', position: 2 };
+    expect(changes(await settleGame(game))).toEqual({ p0: POT / 2 });
+  });
+
+  it('keeps the buy-ins held when the transaction fails, so the payout can be retried', async () => {
+    const game = heldGame({ winningTeam: 'team1' });
+    db.$transaction.mockRejectedValueOnce(new Error('connection lost'));
+    await expect(settleGame(game)).rejects.toThrow('connection lost');
+    expect(game.buyInsHeld).toEqual(['p0', 'p1', 'p2', 'p3']);
+    expect(changes(await settleGame(game))).toEqual({ p0: POT / 2, p2: POT / 2 });
+  });
+
+  it('pays out only once', async () => {
+    const game = heldGame({ winningTeam: 'team1' });
+    const [first, second] = await Promise.all([settleGame(game), settleGame(game)]);
+    expect(first).toHaveLength(2);
+    expect(second).toEqual([]);
+    expect(await settleGame(game)).toEqual([]);
+    expect(db.$transaction).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('refundBuyIns', () => {
+  it('gives every held buy-in back once', async () => {
+    const game = heldGame({ status: 'PLAYING' });
+    expect(changes(await refundBuyIns(game))).toEqual({ p0: BUY_IN, p1: BUY_IN, p2: BUY_IN, p3: BUY_IN });
+    expect(game.buyInsHeld).toBeUndefined();
+    expect(await refundBuyIns(game)).toEqual([]);
+  });
+});
@@ -0,0 +1,146 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { Game } from '../types/game';
+import { isSoloGame, TEAM1_SEATS } from '../engine';
+
+const prisma = new PrismaClient();
+
+// Share of every pot the house keeps (HOUSE_RAKE=0.1 keeps 10%); a value that isn't a number keeps the default
+const rakeSetting = Number(process.env.HOUSE_RAKE ?? 0.1);
+const HOUSE_RAKE = Number.isFinite(rakeSetting) ? Math.min(Math.max(rakeSetting, 0), 1) : 0.1;
+// Solo pots go to the top two finishers, in percent so the split doesn't round a coin away
+const SOLO_PAYOUT_PERCENTS = [70, 30, 0, 0];
+
+export type CoinChangeReason = 'buy_in' | 'payout' | 'refund';
+
+/** A user's balance after a settlement step, as sent with coins_updated. */
+export interface CoinBalance {
+  userId: string;
+  coins: number;
+  change: number;
+  reason: CoinChangeReason;
+}
+
+export type BuyInResult = { ok: true; balances: CoinBalance[] } | { ok: false; error: string };
+
+// Games whose pot is being paid out or refunded right now, so it only goes once
+const settlingGames = new Set<string>();
+
+export function isWinningSeat(game: Game, seatIndex: number): boolean {
+  if (isSoloGame(game)) return game.placements?.[0] === seatIndex;
+  const team1Won = game.winningTeam === 'team1';
+  return TEAM1_SEATS.includes(seatIndex) ? team1Won : !team1Won;
+}
+
+// Applies every change in one transaction and reads back the new balances
+async function applyCoinChanges(changes: Map<string, number>, reason: CoinChangeReason): Promise<CoinBalance[]> {
+  const userIds = [...changes.keys()];
+  if (userIds.length === 0) return [];
+  const users: { id: string; coins: number }[] = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    for (const [userId, change] of changes) {
+      await tx.user.update({
+        where: { id: userId },
+        data: { coins: { increment: change } },
+      });
+    }
+    return tx.user.findMany({ where: { id: { in: userIds } }, select: { id: true, coins: true } });
+  });
+  return users.map(user => ({ userId: user.id, coins: user.coins, change: changes.get(user.id)!, reason }));
+}
+
+/**
+ * Takes the buy-in from every human at the table in one transaction. Nobody
+ * pays unless everyone can; the payers are kept on the game until it is
+ * settled or refunded.
+ */
+export async function collectBuyIns(game: Game): Promise<BuyInResult> {
+  const humans = game.players.filter(p => p?.type === 'human').map(p => p!);
+  if (!(game.buyIn > 0) || humans.length === 0) return { ok: true, balances: [] };
+  // A second start while the first is still collecting must not charge twice
+  if (game.buyInsHeld) return { ok: false, error: 'The buy-ins for this game are already being collected' };
+  game.buyInsHeld = [];
+  const userIds = humans.map(p => p.id);
+  let result: { short: string[] } | { users: { id: string; coins: number }[] };
+  try {
+    result = await prisma.$transaction(
+      async (tx: Prisma.TransactionClient) => {
+        const current: { id: string; coins: number }[] = await tx.user.findMany({
+          where: { id: { in: userIds } },
+          select: { id: true, coins: true },
+        });
+        const short = humans
+          .filter(p => (current.find(user => user.id === p.id)?.coins ?? 0) < game.buyIn)
+          .map(p => p.username);
+        if (short.length > 0) return { short };
+        for (const userId of userIds) {
+          // Guarded so a balance spent elsewhere meanwhile rolls the whole collection back
+          const { count } = await tx.user.updateMany({
+            where: { id: userId, coins: { gte: game.buyIn } },
+            data: { coins: { decrement: game.buyIn } },
+          });
+          if (count !== 1) throw new Error(`Buy-in for user ${userId} could not be collected`);
+        }
+        return { users: await tx.user.findMany({ where: { id: { in: userIds } }, select: { id: true, coins: true } }) };
+      }
+    );
+  } catch (err) {
+    delete game.buyInsHeld;
+    throw err;
+  }
+  if ('short' in result) {
+    delete game.buyInsHeld;
+    return { ok: false, error: `Not enough coins for the buy-in: ${result.short.join(', ')}` };
+  }
+  game.buyInsHeld = userIds;
+  return { ok: true, balances: result.users.map(user => ({ userId: user.id, coins: user.coins, change: -game.buyIn, reason: 'buy_in' })) };
+}
+
+/**
+ * Hands the held buy-ins out as the given changes. The buy-ins stay held until
+ * the transaction goes through, so a failed payout or refund can be retried.
+ */
+async function releaseBuyIns(
+  game: Game,
+  getChanges: (payers: string[]) => Map<string, number>,
+  reason: CoinChangeReason
+): Promise<CoinBalance[]> {
+  const payers = game.buyInsHeld ?? [];
+  if (payers.length === 0 || settlingGames.has(game.id)) return [];
+  settlingGames.add(game.id);
+  try {
+    const balances = await applyCoinChanges(getChanges(payers), reason);
+    delete game.buyInsHeld;
+    return balances;
+  } finally {
+    settlingGames.delete(game.id);
+  }
+}
+
+/**
+ * Pays out the pot of a finished game, less the house rake. Partners split it
+ * between the two winning seats; solo pays by placement. A seat whose player
+ * left mid-game forfeits its share to the house.
+ */
+export async function settleGame(game: Game): Promise<CoinBalance[]> {
+  return releaseBuyIns(game, payers => getPayouts(game, payers), 'payout');
+}
+
+function getPayouts(game: Game, payers: string[]): Map<string, number> {
+  const prizePool = Math.floor(game.buyIn * payers.length * (1 - HOUSE_RAKE));
+  const payouts = new Map<string, number>();
+  game.players.forEach((seat, seatIndex) => {
+    // A player a bot was standing in for still gets the result of their seat
+    const player = seat?.type === 'human' ? seat : seat?.standingInFor;
+    if (!player || !payers.includes(player.id)) return;
+    const percent = isSoloGame(game)
+      ? SOLO_PAYOUT_PERCENTS[game.placements?.indexOf(seatIndex) ?? -1] ?? 0
+      : isWinningSeat(game, seatIndex) ? 50 : 0;
+    const payout = Math.floor((prizePool * percent) / 100);
+    if (payout > 0) payouts.set(player.id, payout);
+  });
+  return payouts;
+}
+
+/** Gives every buy-in back when a table closes before the game is decided. */
+export async function refundBuyIns(game: Game): Promise<CoinBalance[]> {
+  return releaseBuyIns(game, payers => new Map(payers.map(userId => [userId, game.buyIn])), 'refund');
+}
@@ -0,0 +1,225 @@
+import { PrismaClient } from '@prisma/client';
+import type { Card, Game, GamePlayer, Suit, Trick } from '../types/game';
+import { determineTrickWinner, getCardValue, isSameCard, RANKS, type GameEventPayloads } from '../engine';
+
+const prisma = new PrismaClient();
+
+// Live statuses map onto the coarser GameStatus enum; bidding is part of play
+const STATUS_TO_DB: Record<Game['status'], 'WAITING' | 'PLAYING' | 'FINISHED'> = {
+  WAITING: 'WAITING',
+  BIDDING: 'PLAYING',
+  PLAYING: 'PLAYING',
+  COMPLETED: 'FINISHED',
+};
+
+const BID_TYPE_TO_DB: Record<Game['rules']['bidType'], 'REGULAR' | 'WHIZ' | 'MIRRORS' | 'GIMMICK'> = {
+  REG: 'REGULAR',
+  WHIZ: 'WHIZ',
+  MIRROR: 'MIRRORS',
+  GIMMICK: 'GIMMICK',
+};
+
+function getSpecialRules(game: Game): ('SCREAMER' | 'ASSASSIN')[] {
+  const rules: ('SCREAMER' | 'ASSASSIN')[] = [];
+  if (game.specialRules?.screamer) rules.push('SCREAMER');
+  if (game.specialRules?.assassin) rules.push('ASSASSIN');
+  return rules;
+}
+
+// Bots aren't users, so only human seats get a GamePlayer row
+function getSeatRows(game: Game) {
+  return game.players
+    .map((player: GamePlayer | null, position: number) => ({ player, position }))
+    .filter(({ player }) => player?.type === 'human')
+    .map(({ player, position }) => ({
+      gameId: game.id,
+      userId: player!.id,
+      position,
+      team: game.gameMode === 'SOLO' ? null : position % 2 === 0 ? 1 : 2,
+      bid: player!.bid ?? null,
+    }));
+}
+
+async function writeGame(game: Game) {
+  const columns = {
+    status: STATUS_TO_DB[game.status],
+    gameMode: game.gameMode,
+    bidType: BID_TYPE_TO_DB[game.rules.bidType] ?? 'REGULAR',
+    gimmickType: game.rules.gimmickType ?? null,
+    specialRules: getSpecialRules(game),
+    minPoints: game.minPoints,
+    maxPoints: game.maxPoints,
+    buyIn: game.buyIn ?? 0,
+    state: game,
+  };
+  await prisma.$transaction([
+    prisma.game.upsert({
+      where: { id: game.id },
+      create: { id: game.id, creatorId: game.creatorId, ...columns },
+      update: columns,
+    }),
+    prisma.gamePlayer.deleteMany({ where: { gameId: game.id } }),
+    prisma.gamePlayer.createMany({ data: getSeatRows(game) }),
+  ]);
+}
+
+// Writes for the same game are chained so an older snapshot never lands after a newer one
+const pendingWrites = new Map<string, Promise<void>>();
+
+function enqueueWrite(gameId: string, write: () => Promise<void>): Promise<void> {
+  const queued = (pendingWrites.get(gameId) ?? Promise.resolve())
+    .then(write)
+    .catch(err => console.error(`Failed to save game ${gameId}:`, err))
+    .finally(() => {
+      if (pendingWrites.get(gameId) === queued) pendingWrites.delete(gameId);
+    });
+  pendingWrites.set(gameId, queued);
+  return queued;
+}
+
+/**
+ * Saves the current state of a live game. The snapshot is taken immediately,
+ * the write happens in the background and failures are only logged so a
+ * database hiccup never stalls a table.
+ */
+export function checkpointGame(game: Game): Promise<void> {
+  const snapshot: Game = JSON.parse(JSON.stringify(game));
+  return enqueueWrite(game.id, () => writeGame(snapshot));
+}
+
+/** Marks a table that closed before finishing, so it isn't resumed on the next boot. */
+export function cancelGame(gameId: string): Promise<void> {
+  return enqueueWrite(gameId, async () => {
+    await prisma.game.updateMany({
+      where: { id: gameId, status: { in: ['WAITING', 'PLAYING'] } },
+      data: { status: 'CANCELLED' },
+    });
+  });
+}
+
+const SUIT_TO_DB: Record<Suit, 'SPADES' | 'HEARTS' | 'DIAMONDS' | 'CLUBS'> = {
+  S: 'SPADES',
+  H: 'HEARTS',
+  D: 'DIAMONDS',
+  C: 'CLUBS',
+};
+
+/**
+ * Stores a finished hand as a Round with its tricks and cards. Every card of
+ * the hand is played, so the dealt hands are rebuilt from the tricks.
+ */
+export function recordHand(game: Game, summary: GameEventPayloads['hand_completed']): Promise<void> {
+  const tricks = game.play?.tricks ?? [];
+  const playerIds = game.players.map(p => p?.id ?? '');
+  const hands: Card[][] = [[], [], [], []];
+  for (const trick of tricks) {
+    for (const card of trick.cards) {
+      if (card.playerIndex !== undefined) hands[card.playerIndex].push({ suit: card.suit, rank: card.rank });
+    }
+  }
+  const round = {
+    gameId: game.id,
+    roundNumber: game.handNumber ?? 1,
+    dealerIndex: game.dealerIndex ?? 0,
+    bids: (game.bidding?.bids ?? []).map(bid => bid ?? 0),
+    hands: JSON.parse(JSON.stringify(hands)),
+    score: JSON.parse(JSON.stringify(summary)),
+    tricks: {
+      create: tricks.map((trick, trickNumber) => ({
+        trickNumber,
+        leadPlayerId: playerIds[trick.cards[0]?.playerIndex ?? 0],
+        winningPlayerId: playerIds[trick.winnerIndex],
+        cards: {
+          create: trick.cards.map((card, order) => ({
+            playerId: playerIds[card.playerIndex ?? 0],
+            order,
+            suit: SUIT_TO_DB[card.suit],
+            value: getCardValue(card.rank),
+          })),
+        },
+      })),
+    },
+  };
+  return enqueueWrite(game.id, async () => {
+    await prisma.round.create({ data: round });
+  });
+}
+
+const SUIT_FROM_DB: Record<string, Suit> = {
+  SPADES: 'S',
+  HEARTS: 'H',
+  DIAMONDS: 'D',
+  CLUBS: 'C',
+};
+
+/** A recorded hand: the deal, the bids, every trick in order and the score it produced. */
+export interface HandReplay {
+  roundNumber: number;
+  dealerIndex: number;
+  bids: number[];
+  hands: Card[][];
+  tricks: Trick[];
+  score: GameEventPayloads['hand_completed'];
+}
+
+export interface GameReplay {
+  game: Game;
+  hands: HandReplay[];
+}
+
+interface ReplayRow {
+  status: string;
+  state: Game | null;
+  rounds: (Omit<HandReplay, 'tricks'> & { tricks: { cards: { suit: string; value: number }[] }[] })[];
+}
+
+/**
+ * A finished game with every hand it played, or null when the game is unknown
+ * or still running. Live games are left out so their hands stay hidden.
+ */
+export async function loadGameReplay(gameId: string): Promise<GameReplay | null> {
+  const row: ReplayRow | null = await prisma.game.findUnique({
+    where: { id: gameId },
+    include: {
+      rounds: {
+        orderBy: { roundNumber: 'asc' },
+        include: {
+          tricks: {
+            orderBy: { trickNumber: 'asc' },
+            include: { cards: { orderBy: { order: 'asc' } } },
+          },
+        },
+      },
+    },
+  });
+  if (!row?.state || row.status !== 'FINISHED') return null;
+  // Seats can change hands mid-game, so cards are placed by the deal rather than by player id
+  const hands: HandReplay[] = row.rounds.map(round => {
+    const dealt = round.hands;
+    const tricks: Trick[] = round.tricks.map(trick => {
+      const cards: Card[] = trick.cards.map(saved => {
+        const card: Card = { suit: SUIT_FROM_DB[saved.suit], rank: RANKS[saved.value - 2] };
+        return { ...card, playerIndex: dealt.findIndex(hand => hand.some(c => isSameCard(c, card))) };
+      });
+      return { cards, winnerIndex: determineTrickWinner(cards) };
+    });
+    return {
+      roundNumber: round.roundNumber,
+      dealerIndex: round.dealerIndex,
+      bids: round.bids,
+      hands: dealt,
+      tricks,
+      score: round.score,
+    };
+  });
+  return { game: row.state, hands };
+}
+
+/** Live games saved by a previous server process, oldest first. */
+export async function loadActiveGames(): Promise<Game[]> {
+  const rows: { state: Game | null }[] = await prisma.game.findMany({
+    where: { status: { in: ['WAITING', 'PLAYING'] } },
+    orderBy: { createdAt: 'asc' },
+  });
+  return rows.flatMap(row => (row.state ? [row.state] : []));
+}
@@ -0,0 +1,39 @@
+import type { Game, GamePlayer } from '../types/game';
+
+/**
+ * The game as one viewer may see it. A seated player gets their own hand and
+ * nobody else's; everyone else (spectators, the lobby, REST callers) gets no
+ * hands at all unless revealHands is set for a delayed spectator feed. Only
+ * seated players get the invite code, and the password never leaves the server.
+ */
+export function enrichGameForClient(game: Game, userId?: string, { revealHands = false } = {}) {
+  if (!game) return game;
+  const hands = game.hands || [];
+  const dealerIndex = game.dealerIndex;
+  // Find the index of the player with userId
+  const handIndex = userId ? (game.players || []).findIndex(p => p && p.id === userId) : -1;
+  // A player deciding on blind nil doesn't get to see their cards yet
+  const handHidden = handIndex !== -1 && !!game.bidding?.awaitingBlindNil?.[handIndex];
+  return {
+    ...game,
+    hands: undefined,
+    passwordHash: undefined,
+    allowedUserIds: undefined,
+    buyInsHeld: undefined,
+    inviteCode: handIndex !== -1 ? game.inviteCode : undefined,
+    currentPlayer: game.status === 'PLAYING' ? game.play?.currentPlayer : game.bidding?.currentPlayer,
+    currentTrick: game.play?.currentTrick ?? [],
+    scores: { team1: game.team1TotalScore || 0, team2: game.team2TotalScore || 0 },
+    players: (game.players || []).map((p: GamePlayer | null, i: number) => {
+      if (!p) return null;
+      const isOwnHand = i === handIndex && !handHidden;
+      return {
+        ...p,
+        hand: isOwnHand || revealHands ? hands[i] || [] : undefined,
+        isDealer: dealerIndex !== undefined ? i === dealerIndex : !!p.isDealer,
+      };
+    })
+  };
+}
+
+export type ClientGameView = ReturnType<typeof enrichGameForClient>;
@@ -1,6 +1,10 @@
 export type GameMode = 'PARTNERS' | 'SOLO';
 export type BiddingOption = 'REG' | 'WHIZ' | 'MIRROR' | 'GIMMICK';
 export type GamePlayOption = 'REG' | 'WHIZ' | 'MIRROR';
+// Forced-bid variations played under the GIMMICK bidding option
+export type GimmickType = 'SUICIDE' | 'BID4NIL' | 'BID3' | 'BIDHEARTS';
+// How a game ends when both teams cross a points limit on the same hand
+export type TieBreak = 'PLAY_ANOTHER_HAND' | 'HIGHER_SCORE';
 export type Suit = 'S' | 'H' | 'D' | 'C';
 export type Rank = '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K' | 'A';
 
@@ -11,30 +15,54 @@ export interface Card {
   playerIndex?: number;
 }
 
+export interface Trick {
+  cards: Card[];
+  winnerIndex: number;
+}
+
+// Play restrictions a table can opt into
+export interface SpecialRules {
+  // Spades may only be played when the hand holds no other suit
+  screamer?: boolean;
+  assassin?: boolean;
+}
+
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+// Unlisted tables stay out of the lobby; password tables are listed but locked
+export type TableVisibility = 'PUBLIC' | 'UNLISTED' | 'PASSWORD';
+
 export interface GamePlayer {
   id: string;
   username: string;
   avatar: string | null;
   type: 'human' | 'bot';
+  difficulty?: BotDifficulty;
   position?: number;
   hand?: Card[];
   bid?: number;
   tricks?: number;
   team?: number;
   isDealer?: boolean;
+  // Set while the player's connection is down and their seat is being held
+  disconnectedAt?: number;
+  // On a bot playing a seat for a human who dropped or went idle, until they return
+  standingInFor?: GamePlayer;
+}
+
+export interface SeatSwapRequest {
+  fromUserId: string;
+  toUserId: string;
 }
 
 export interface Game {
   id: string;
+  creatorId: string;
   gameMode: GameMode;
   maxPoints: number;
   minPoints: number;
   buyIn: number;
-  forcedBid: 'SUICIDE' | 'NONE';
-  specialRules: {
-    screamer?: boolean;
-    assassin?: boolean;
-  };
+  forcedBid: GimmickType | 'NONE';
+  specialRules: SpecialRules;
   players: (GamePlayer | null)[];
   spectators: GamePlayer[];
   status: 'WAITING' | 'BIDDING' | 'PLAYING' | 'COMPLETED';
@@ -47,9 +75,18 @@ export interface Game {
     maxPoints: number;
     minPoints: number;
     bidType: BiddingOption;
-    gimmickType: GamePlayOption;
+    gimmickType: GimmickType | null;
+    tieBreak?: TieBreak;
+    // Seconds each player gets to bid or play; no clock when unset
+    turnTimeLimit?: number;
+    // How many may watch; 0 closes the table to spectators
+    maxSpectators?: number;
+    // Spectators see every hand, on a delay so they can't pass them on to a player
+    revealHandsToSpectators?: boolean;
   };
   isBotGame: boolean;
+  // Counts the hands dealt so far, starting at 1 for the first hand
+  handNumber?: number;
   dealerIndex?: number;
   hands?: Card[][];
   bidding?: {
@@ -57,16 +94,15 @@ export interface Game {
     currentBidderIndex: number;
     bids: (number | null)[];
     nilBids: Record<string, boolean>;
+    // Seats offered blind nil that haven't looked at their cards yet
+    awaitingBlindNil?: boolean[];
   };
   play?: {
     currentPlayer: string;
     currentPlayerIndex: number;
     currentTrick: Card[];
     leadSuit?: Suit;
-    tricks: {
-      cards: Card[];
-      winnerIndex: number;
-    }[];
+    tricks: Trick[];
     trickNumber: number;
   };
   team1TotalScore?: number;
@@ -74,4 +110,26 @@ export interface Game {
   team1Bags?: number;
   team2Bags?: number;
   winningTeam?: 'team1' | 'team2';
+  // Solo mode running totals, by seat
+  playerScores?: number[];
+  playerBags?: number[];
+  // Solo mode finishing order (seat indexes, first place first)
+  placements?: number[];
+  // When the player to act runs out of time (epoch ms), on timed tables
+  turnDeadline?: number;
+  // Turns each seat has let the clock run out on
+  turnStrikes?: number[];
+  // Users whose buy-in is in the pot, until it is paid out or refunded
+  buyInsHeld?: string[];
+  visibility?: TableVisibility;
+  // bcrypt hash of a password table's password
+  passwordHash?: string;
+  // Whoever opens the table's invite link may sit down without the password
+  inviteCode?: string;
+  // Users who have got into a private table once, so a refresh doesn't ask again
+  allowedUserIds?: string[];
+  // Humans who have confirmed they are ready to start; any change of seats clears it
+  readyPlayers?: string[];
+  // Pending requests from one seated player to trade seats with another
+  swapRequests?: SeatSwapRequest[];
 } 
\ No newline at end of file